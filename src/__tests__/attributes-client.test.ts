@@ -0,0 +1,154 @@
+/**
+ * Tests for AttributesClient and AttributeTermsClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { WooCommerceClient } from '../client'
+import { AttributesClient } from '../client/attributes-client'
+import { AttributeTermsClient } from '../client/attribute-terms-client'
+import type { WooCommerceAttribute, WooCommerceAttributeTerm } from '../types'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+const color: WooCommerceAttribute = {
+  id: 1,
+  name: 'Color',
+  slug: 'pa_color',
+  type: 'select',
+  order_by: 'menu_order',
+  has_archives: false,
+}
+
+function term(id: number, slug: string): WooCommerceAttributeTerm {
+  return { id, name: slug, slug, description: '', menu_order: 0, count: 0 }
+}
+
+describe('AttributesClient', () => {
+  let client: AttributesClient
+  let originalFetch: typeof global.fetch
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new AttributesClient(mockConfig)
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should list attributes', async () => {
+    let requested: URL | undefined
+    mockFetchWith(async url => {
+      requested = new URL(String(url))
+      return mockFetchResponse([color])
+    })
+
+    const attributes = await client.list()
+
+    expect(attributes).toEqual([color])
+    expect(requested?.pathname).toBe('/wp-json/wc/v3/products/attributes')
+  })
+
+  it('should post batch operations to the batch endpoint', async () => {
+    let request: { url: URL; method?: string; body?: unknown } | undefined
+    mockFetchWith(async (url, options) => {
+      request = {
+        url: new URL(String(url)),
+        method: options?.method,
+        body: JSON.parse(String(options?.body)),
+      }
+      return mockFetchResponse({ create: [color] })
+    })
+
+    await client.batch({ create: [{ name: 'Color' }], delete: [2] })
+
+    expect(request?.method).toBe('POST')
+    expect(request?.url.pathname).toBe('/wp-json/wc/v3/products/attributes/batch')
+    expect(request?.body).toEqual({ create: [{ name: 'Color' }], delete: [2] })
+  })
+
+  it('should force delete attributes by default', async () => {
+    let request: { url: URL; method?: string } | undefined
+    mockFetchWith(async (url, options) => {
+      request = { url: new URL(String(url)), method: options?.method }
+      return mockFetchResponse(color)
+    })
+
+    await client.deleteAttribute(1)
+
+    expect(request?.method).toBe('DELETE')
+    expect(request?.url.pathname).toBe('/wp-json/wc/v3/products/attributes/1')
+    expect(request?.url.searchParams.get('force')).toBe('true')
+  })
+})
+
+describe('AttributeTermsClient', () => {
+  let client: AttributeTermsClient
+  let originalFetch: typeof global.fetch
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new AttributeTermsClient(mockConfig)
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should list terms under the parent attribute', async () => {
+    let requested: URL | undefined
+    mockFetchWith(async url => {
+      requested = new URL(String(url))
+      return mockFetchResponse([term(10, 'red')])
+    })
+
+    const terms = await client.list(1, { per_page: 50 })
+
+    expect(terms[0]?.slug).toBe('red')
+    expect(requested?.pathname).toBe('/wp-json/wc/v3/products/attributes/1/terms')
+    expect(requested?.searchParams.get('per_page')).toBe('50')
+  })
+
+  it('should iterate terms under the parent attribute', async () => {
+    const requested: URL[] = []
+    mockFetchWith(async url => {
+      requested.push(new URL(String(url)))
+      return mockFetchResponse([term(10, 'red'), term(11, 'blue')], 200, {
+        'x-wp-total': '2',
+        'x-wp-totalpages': '1',
+      })
+    })
+
+    const slugs: string[] = []
+    for await (const item of client.iterate(1)) {
+      slugs.push(item.slug)
+    }
+
+    expect(slugs).toEqual(['red', 'blue'])
+    expect(requested.map(url => url.pathname)).toEqual([
+      '/wp-json/wc/v3/products/attributes/1/terms',
+    ])
+  })
+
+  it('should force delete terms by default', async () => {
+    let request: { url: URL; method?: string } | undefined
+    mockFetchWith(async (url, options) => {
+      request = { url: new URL(String(url)), method: options?.method }
+      return mockFetchResponse(term(10, 'red'))
+    })
+
+    await client.deleteTerm(1, 10)
+
+    expect(request?.method).toBe('DELETE')
+    expect(request?.url.pathname).toBe('/wp-json/wc/v3/products/attributes/1/terms/10')
+    expect(request?.url.searchParams.get('force')).toBe('true')
+  })
+})
+
+describe('WooCommerceClient', () => {
+  it('should expose the attributes and attribute terms clients', () => {
+    const woocommerce = new WooCommerceClient(mockConfig)
+
+    expect(woocommerce.attributes).toBeInstanceOf(AttributesClient)
+    expect(woocommerce.attributeTerms).toBeInstanceOf(AttributeTermsClient)
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Tests for authentication strategies
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { WooCommerceClient } from '../client'
+import { WooCommerceAuthenticationError } from '../errors'
+import type { AuthStrategy } from '../types'
+import { mockFetchResponse, mockFetchWith } from './setup'
+
+interface CapturedRequest {
+  url: string
+  headers: Record<string, string>
+}
+
+describe('Authentication strategies', () => {
+  let originalFetch: typeof global.fetch
+  let requests: CapturedRequest[]
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    requests = []
+    mockFetchWith(async (url, options) => {
+      requests.push({ url: String(url), headers: options?.headers as Record<string, string> })
+      return mockFetchResponse([])
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  function createClient(auth: AuthStrategy): WooCommerceClient {
+    return new WooCommerceClient({ url: 'https://example.com', auth })
+  }
+
+  it('should send consumer credentials in a Basic header', async () => {
+    await createClient({
+      type: 'basic',
+      consumerKey: 'ck_key',
+      consumerSecret: 'cs_secret',
+    }).products.list({ per_page: 5 })
+
+    expect(requests[0]!.headers.Authorization).toBe(
+      `Basic ${Buffer.from('ck_key:cs_secret').toString('base64')}`
+    )
+    expect(requests[0]!.url).toBe('https://example.com/wp-json/wc/v3/products?per_page=5')
+  })
+
+  it('should send an application password in a Basic header', async () => {
+    await createClient({
+      type: 'application-password',
+      username: 'josé',
+      password: 'abcd EFGH 1234 ijkl',
+    }).orders.list()
+
+    expect(requests[0]!.headers.Authorization).toBe(
+      `Basic ${Buffer.from('josé:abcd EFGH 1234 ijkl').toString('base64')}`
+    )
+  })
+
+  it('should send a static bearer token', async () => {
+    await createClient({ type: 'bearer', token: 'jwt-token' }).customers.list()
+
+    expect(requests[0]!.headers.Authorization).toBe('Bearer jwt-token')
+  })
+
+  it('should resolve a bearer token before each request', async () => {
+    const token = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second')
+    const client = createClient({ type: 'bearer', token })
+
+    await client.products.list()
+    await client.products.list()
+
+    expect(token).toHaveBeenCalledTimes(2)
+    expect(requests.map(request => request.headers.Authorization)).toEqual([
+      'Bearer first',
+      'Bearer second',
+    ])
+  })
+
+  it('should let a custom signer update the URL and headers', async () => {
+    const sign = vi.fn(async request => {
+      request.url = `${request.url}&signature=${request.method.toLowerCase()}`
+      request.headers['X-Api-Key'] = 'secret'
+    })
+
+    await createClient({ type: 'custom', sign }).coupons.list({ page: 2 })
+
+    expect(requests[0]!.url).toBe('https://example.com/wp-json/wc/v3/coupons?page=2&signature=get')
+    expect(requests[0]!.headers['X-Api-Key']).toBe('secret')
+  })
+
+  it('should use OAuth 1.0a when selected explicitly on HTTPS', async () => {
+    await createClient({
+      type: 'oauth1',
+      consumerKey: 'ck_key',
+      consumerSecret: 'cs_secret',
+    }).products.list()
+
+    expect(requests[0]!.headers.Authorization).toMatch(/^OAuth oauth_consumer_key="ck_key"/)
+    expect(requests[0]!.url).not.toContain('consumer_secret')
+  })
+
+  it('should ignore consumer credentials when an auth strategy is set', async () => {
+    await new WooCommerceClient({
+      url: 'https://example.com',
+      consumerKey: 'ck_key',
+      consumerSecret: 'cs_secret',
+      auth: { type: 'bearer', token: 'jwt-token' },
+    }).products.list()
+
+    expect(requests[0]!.url).not.toContain('consumer_key')
+    expect(requests[0]!.headers.Authorization).toBe('Bearer jwt-token')
+  })
+
+  it('should require credentials when no auth strategy is set', () => {
+    expect(() => new WooCommerceClient({ url: 'https://example.com' })).toThrow(
+      WooCommerceAuthenticationError
+    )
+  })
+})
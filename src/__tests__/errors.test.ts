@@ -12,6 +12,7 @@ import {
   WooCommerceRateLimitError,
   WooCommerceNetworkError,
   WooCommerceAPIError,
+  WooCommerceWebhookError,
 } from '../errors'
 
 describe('Error classes', () => {
@@ -170,4 +171,23 @@ describe('Error classes', () => {
       expect(error503.statusCode).toBe(503)
     })
   })
+  describe('WooCommerceWebhookError', () => {
+    it('should create webhook error with default message and reason', () => {
+      const error = new WooCommerceWebhookError()
+
+      expect(error).toBeInstanceOf(WooCommerceError)
+      expect(error).toBeInstanceOf(WooCommerceWebhookError)
+      expect(error.message).toBe('Invalid webhook request')
+      expect(error.name).toBe('WooCommerceWebhookError')
+      expect(error.reason).toBe('invalid_signature')
+      expect(error.statusCode).toBe(401)
+    })
+
+    it('should support custom reasons and status codes', () => {
+      const error = new WooCommerceWebhookError('Invalid webhook payload', 'invalid_payload', 400)
+
+      expect(error.reason).toBe('invalid_payload')
+      expect(error.statusCode).toBe(400)
+    })
+  })
 })
@@ -0,0 +1,150 @@
+/**
+ * Tests for the request/response middleware pipeline
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { WooCommerceClient } from '../client'
+import { WooCommerceError, WooCommerceNotFoundError } from '../errors'
+import type { WooCommerceMiddleware } from '../types/middleware'
+import { mockConfig, mockFetchResponse, mockFetchError, mockFetchWith, mockProduct } from './setup'
+
+describe('Middleware', () => {
+  let originalFetch: typeof global.fetch
+  let fetchCalls: Array<{ url: string; headers: Record<string, string> }>
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    fetchCalls = []
+    mockFetchWith(async (url, options) => {
+      fetchCalls.push({
+        url: url.toString(),
+        headers: options?.headers as Record<string, string>,
+      })
+      return mockFetchResponse(mockProduct)
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should run onRequest hooks in order and send modified headers', async () => {
+    const order: string[] = []
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      middleware: [
+        {
+          onRequest: context => {
+            order.push('first')
+            context.headers['X-Tenant'] = 'store-1'
+          },
+        },
+        {
+          onRequest: context => {
+            order.push('second')
+            context.headers['X-Tenant'] += '-eu'
+          },
+        },
+      ],
+    })
+
+    await client.products.getProduct(123)
+
+    expect(order).toEqual(['first', 'second'])
+    expect(fetchCalls[0]?.headers['X-Tenant']).toBe('store-1-eu')
+  })
+
+  it('should expose the request URL without credentials', async () => {
+    let seenUrl = ''
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      middleware: [{ onRequest: context => void (seenUrl = context.url) }],
+    })
+
+    await client.products.list({ per_page: 5 })
+
+    expect(seenUrl).toBe('https://example.com/wp-json/wc/v3/products?per_page=5')
+    expect(fetchCalls[0]?.url).toContain('consumer_key=')
+  })
+
+  it('should short-circuit the network call from onRequest', async () => {
+    const cached = { ...mockProduct, name: 'Cached Product' }
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      middleware: [{ onRequest: () => mockFetchResponse(cached) }],
+    })
+
+    const result = await client.products.getProduct(123)
+
+    expect(result.name).toBe('Cached Product')
+    expect(fetchCalls).toHaveLength(0)
+  })
+
+  it('should rewrite responses from onResponse', async () => {
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      middleware: [
+        {
+          onResponse: async response => {
+            const data = (await response.json()) as { name: string }
+            return mockFetchResponse({ ...data, name: data.name.toUpperCase() })
+          },
+        },
+      ],
+    })
+
+    const result = await client.products.getProduct(123)
+
+    expect(result.name).toBe('TEST PRODUCT')
+  })
+
+  it('should pass typed errors to onError and allow recovery', async () => {
+    const errors: WooCommerceError[] = []
+    mockFetchWith(async () => mockFetchError(404, 'Not found'))
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      middleware: [
+        {
+          onError: error => {
+            errors.push(error)
+            return mockFetchResponse({ ...mockProduct, id: 0 })
+          },
+        },
+      ],
+    })
+
+    const result = await client.products.getProduct(999)
+
+    expect(errors[0]).toBeInstanceOf(WooCommerceNotFoundError)
+    expect(result.id).toBe(0)
+  })
+
+  it('should rethrow errors when no middleware recovers', async () => {
+    mockFetchWith(async () => mockFetchError(404, 'Not found'))
+    const client = new WooCommerceClient({ ...mockConfig, middleware: [{ onError: () => {} }] })
+
+    await expect(client.products.getProduct(999)).rejects.toThrow(WooCommerceNotFoundError)
+  })
+
+  it('should apply middleware added at runtime to every resource client', async () => {
+    const endpoints: string[] = []
+    const latency: WooCommerceMiddleware = {
+      name: 'latency',
+      onRequest: context => {
+        context.metadata.start = Date.now()
+      },
+      onResponse: (_response, context) => {
+        endpoints.push(`${context.endpoint} ${Date.now() - (context.metadata.start as number)}ms`)
+      },
+    }
+    const client = new WooCommerceClient(mockConfig)
+
+    client.use(latency)
+    await client.products.getProduct(123)
+    await client.orders.getOrder(456)
+
+    expect(endpoints).toHaveLength(2)
+    expect(endpoints[0]).toMatch(/^products\/123 \d+ms$/)
+    expect(endpoints[1]).toMatch(/^orders\/456 \d+ms$/)
+  })
+})
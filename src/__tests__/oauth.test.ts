@@ -0,0 +1,250 @@
+/**
+ * Tests for OAuth 1.0a signing
+ */
+
+import { createHmac } from 'node:crypto'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { BaseClient } from '../client/base-client'
+import {
+  appendOAuthParams,
+  buildSignatureBaseString,
+  indexArrayParams,
+  normalizeBaseUri,
+  percentEncode,
+  signOAuthRequest,
+  toAuthorizationHeader,
+} from '../client/oauth'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+// Test client that exposes protected methods
+class TestClient extends BaseClient {
+  public async testGet<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
+    return this.get<T>(endpoint, params)
+  }
+}
+
+describe('OAuth 1.0a', () => {
+  describe('percentEncode', () => {
+    it('should encode reserved characters per RFC 3986', () => {
+      expect(percentEncode("Ladies + Gentlemen, a signed OAuth request!*'()")).toBe(
+        'Ladies%20%2B%20Gentlemen%2C%20a%20signed%20OAuth%20request%21%2A%27%28%29'
+      )
+      expect(percentEncode('-._~')).toBe('-._~')
+    })
+  })
+
+  describe('normalizeBaseUri', () => {
+    it('should lowercase scheme and host and drop default ports (RFC 5849 3.4.1.2)', () => {
+      expect(normalizeBaseUri('HTTP://EXAMPLE.COM:80/r%20v/X?id=123')).toBe(
+        'http://example.com/r%20v/X'
+      )
+      expect(normalizeBaseUri('https://www.example.net:8080/?q=1')).toBe(
+        'https://www.example.net:8080/'
+      )
+    })
+  })
+
+  describe('buildSignatureBaseString', () => {
+    it('should match the RFC 5849 3.4.1.1 example', () => {
+      const baseString = buildSignatureBaseString(
+        'POST',
+        'http://example.com/request?b5=%3D%253D&a3=a&c%40=&a2=r%20b',
+        [
+          ['oauth_consumer_key', '9djdj82h48djs9d2'],
+          ['oauth_token', 'kkk9d7dh3k39sjv7'],
+          ['oauth_signature_method', 'HMAC-SHA1'],
+          ['oauth_timestamp', '137131201'],
+          ['oauth_nonce', '7d8f3e4a'],
+          ['c2', ''],
+          ['a3', '2 q'],
+        ]
+      )
+
+      expect(baseString).toBe(
+        'POST&http%3A%2F%2Fexample.com%2Frequest&a2%3Dr%2520b%26a3%3D2%2520q%26a3%3Da%26b5%3D%253D%25253D%26c%2540%3D%26c2%3D%26oauth_consumer_key%3D9djdj82h48djs9d2%26oauth_nonce%3D7d8f3e4a%26oauth_signature_method%3DHMAC-SHA1%26oauth_timestamp%3D137131201%26oauth_token%3Dkkk9d7dh3k39sjv7'
+      )
+    })
+  })
+
+  describe('signOAuthRequest', () => {
+    it('should match the OAuth Core 1.0 Appendix A HMAC-SHA1 vector', () => {
+      const params = signOAuthRequest({
+        method: 'GET',
+        url: 'http://photos.example.net/photos?file=vacation.jpg&size=original',
+        consumerKey: 'dpf43f3p2l4k3l03',
+        consumerSecret: 'kd94hf93k423kf44',
+        token: 'nnch734d00sl2jdk',
+        tokenSecret: 'pfkkdhi9sl3r4s00',
+        signatureMethod: 'HMAC-SHA1',
+        nonce: 'kllo9940pd9333jh',
+        timestamp: 1191242096,
+      })
+
+      expect(params.oauth_signature).toBe('tR3+Ty81lMeYAr/Fid0kMTYa/WM=')
+    })
+
+    it('should match the Twitter HMAC-SHA1 vector with form parameters', () => {
+      const params = signOAuthRequest({
+        method: 'post',
+        url: 'https://api.twitter.com/1.1/statuses/update.json?include_entities=true',
+        consumerKey: 'xvz1evFS4wEEPTGEFPHBog',
+        consumerSecret: 'kAcSOqF21Fu85e7zjz7ZN2U4ZRhfV3WpwPAoE3Z7kBw',
+        token: '370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb',
+        tokenSecret: 'LswwdoUaIvS8ltyTt5jkRh4J50vUPVVHtR2YPi5kE',
+        signatureMethod: 'HMAC-SHA1',
+        formParams: [['status', 'Hello Ladies + Gentlemen, a signed OAuth request!']],
+        nonce: 'kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg',
+        timestamp: 1318622958,
+      })
+
+      expect(params.oauth_signature).toBe('hCtSmYh+iHYCEqBWrE7C7hYmtUk=')
+    })
+
+    it('should sign with HMAC-SHA256 by default using the consumer secret as key', () => {
+      const params = signOAuthRequest({
+        method: 'GET',
+        url: 'http://example.com/wp-json/wc/v3/products?per_page=10',
+        consumerKey: 'ck_test',
+        consumerSecret: 'cs_test',
+        nonce: 'abc123',
+        timestamp: 1700000000,
+      })
+
+      const baseString =
+        'GET&http%3A%2F%2Fexample.com%2Fwp-json%2Fwc%2Fv3%2Fproducts&oauth_consumer_key%3Dck_test%26oauth_nonce%3Dabc123%26oauth_signature_method%3DHMAC-SHA256%26oauth_timestamp%3D1700000000%26oauth_version%3D1.0%26per_page%3D10'
+      const expected = createHmac('sha256', 'cs_test&').update(baseString).digest('base64')
+
+      expect(params.oauth_signature_method).toBe('HMAC-SHA256')
+      expect(params.oauth_signature).toBe(expected)
+    })
+
+    it('should generate a fresh nonce and current timestamp', () => {
+      const request = {
+        method: 'GET',
+        url: 'http://example.com/wp-json/wc/v3/products',
+        consumerKey: 'ck_test',
+        consumerSecret: 'cs_test',
+      }
+
+      const first = signOAuthRequest(request)
+      const second = signOAuthRequest(request)
+
+      expect(first.oauth_nonce).not.toBe(second.oauth_nonce)
+      expect(Number(first.oauth_timestamp)).toBeCloseTo(Date.now() / 1000, -1)
+    })
+  })
+
+  describe('parameter transmission', () => {
+    const params = {
+      oauth_consumer_key: 'ck_test',
+      oauth_signature: 'a+b/c=',
+    }
+
+    it('should format the Authorization header', () => {
+      expect(toAuthorizationHeader(params)).toBe(
+        'OAuth oauth_consumer_key="ck_test", oauth_signature="a%2Bb%2Fc%3D"'
+      )
+    })
+
+    it('should append parameters to the query string', () => {
+      expect(appendOAuthParams('http://example.com/products?page=2', params)).toBe(
+        'http://example.com/products?page=2&oauth_consumer_key=ck_test&oauth_signature=a%2Bb%2Fc%3D'
+      )
+    })
+
+    it('should index array parameters', () => {
+      expect(
+        indexArrayParams('http://example.com/products?include%5B%5D=1&include%5B%5D=2&page=1')
+      ).toBe('http://example.com/products?include%5B0%5D=1&include%5B1%5D=2&page=1')
+    })
+  })
+
+  describe('BaseClient integration', () => {
+    let originalFetch: typeof global.fetch
+
+    beforeEach(() => {
+      originalFetch = global.fetch
+    })
+
+    afterEach(() => {
+      global.fetch = originalFetch
+    })
+
+    /**
+     * Recomputes the signature of a captured request the way WooCommerce verifies it
+     */
+    function verifySignature(url: string, oauthParams: Record<string, string>): boolean {
+      const { oauth_signature: signature, ...signed } = oauthParams
+      const query = new URL(url).searchParams
+      const pairs: Array<[string, string]> = [...query.entries()].filter(
+        ([key]) => !key.startsWith('oauth_')
+      )
+      const normalized = [...pairs, ...Object.entries(signed)]
+        .map(([key, value]) => `${percentEncode(key)}=${percentEncode(value)}`)
+        .sort()
+        .join('&')
+      const baseString = `GET&${percentEncode(url.split('?')[0]!)}&${percentEncode(normalized)}`
+
+      return (
+        createHmac('sha256', 'cs_test_consumer_secret&').update(baseString).digest('base64') ===
+        signature
+      )
+    }
+
+    it('should sign query parameters in the Authorization header', async () => {
+      const client = new TestClient({
+        ...mockConfig,
+        url: 'http://example.com',
+        queryStringAuth: false,
+      })
+      let requestUrl = ''
+      let authHeader = ''
+
+      mockFetchWith(async (url, options) => {
+        requestUrl = String(url)
+        authHeader = (options?.headers as Record<string, string>).Authorization ?? ''
+        return mockFetchResponse([])
+      })
+
+      await client.testGet('products', { per_page: 5, include: [1, 2], search: 'red shirt' })
+
+      const oauthParams = Object.fromEntries(
+        [...authHeader.slice('OAuth '.length).matchAll(/(\w+)="([^"]*)"/g)].map(
+          ([, key, value]) => [key!, decodeURIComponent(value!)]
+        )
+      )
+
+      expect(requestUrl).toContain('include%5B0%5D=1&include%5B1%5D=2')
+      expect(requestUrl).not.toContain('oauth_signature')
+      expect(verifySignature(requestUrl, oauthParams)).toBe(true)
+    })
+
+    it('should send OAuth parameters in the query string when configured', async () => {
+      const client = new TestClient({
+        ...mockConfig,
+        url: 'http://example.com',
+        queryStringAuth: false,
+        oauth: { placement: 'query' },
+      })
+      let requestUrl = ''
+      let headers: Record<string, string> = {}
+
+      mockFetchWith(async (url, options) => {
+        requestUrl = String(url)
+        headers = options?.headers as Record<string, string>
+        return mockFetchResponse([])
+      })
+
+      await client.testGet('products', { status: 'publish' })
+
+      const oauthParams = Object.fromEntries(
+        [...new URL(requestUrl).searchParams.entries()].filter(([key]) => key.startsWith('oauth_'))
+      )
+
+      expect(headers.Authorization).toBeUndefined()
+      expect(requestUrl).not.toContain('consumer_secret')
+      expect(oauthParams.oauth_signature_method).toBe('HMAC-SHA256')
+      expect(verifySignature(requestUrl, oauthParams)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Tests for async iterator pagination
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { WooCommerceClient } from '../client'
+import { mockConfig, mockFetchResponse, mockFetchWith, mockOrder, mockProduct } from './setup'
+
+describe('Pagination iterators', () => {
+  let client: WooCommerceClient
+  let originalFetch: typeof global.fetch
+  let requestedUrls: string[]
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new WooCommerceClient(mockConfig)
+    requestedUrls = []
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  /**
+   * Serves a collection split into pages of `perPage` items with WooCommerce headers
+   */
+  function mockCollection<T extends { id: number }>(template: T, total: number): void {
+    mockFetchWith(async input => {
+      const url = new URL(input.toString())
+      requestedUrls.push(url.toString())
+
+      const page = Number(url.searchParams.get('page') ?? '1')
+      const perPage = Number(url.searchParams.get('per_page') ?? '10')
+      const start = (page - 1) * perPage
+      const items = Array.from(
+        { length: Math.max(0, Math.min(perPage, total - start)) },
+        (_, i) => ({
+          ...template,
+          id: start + i + 1,
+        })
+      )
+
+      return mockFetchResponse(items, 200, {
+        'x-wp-total': String(total),
+        'x-wp-totalpages': String(Math.ceil(total / perPage)),
+      })
+    })
+  }
+
+  it('should yield every item across pages', async () => {
+    mockCollection(mockProduct, 25)
+
+    const ids: number[] = []
+    for await (const product of client.products.iterate({ per_page: 10 })) {
+      ids.push(product.id)
+    }
+
+    expect(ids).toHaveLength(25)
+    expect(ids[24]).toBe(25)
+    expect(requestedUrls).toHaveLength(3)
+  })
+
+  it('should stop at X-WP-TotalPages when the last page is full', async () => {
+    mockCollection(mockOrder, 20)
+
+    const orders = []
+    for await (const order of client.orders.iterate({ per_page: 10 })) {
+      orders.push(order)
+    }
+
+    expect(orders).toHaveLength(20)
+    // No extra request for an empty third page
+    expect(requestedUrls).toHaveLength(2)
+  })
+
+  it('should support early break without fetching further pages', async () => {
+    mockCollection(mockProduct, 100)
+
+    for await (const product of client.products.iterate({ per_page: 10 })) {
+      if (product.id === 5) break
+    }
+
+    expect(requestedUrls).toHaveLength(1)
+  })
+
+  it('should stop after maxItems', async () => {
+    mockCollection(mockProduct, 100)
+
+    const ids: number[] = []
+    for await (const product of client.products.iterate({ per_page: 10 }, { maxItems: 15 })) {
+      ids.push(product.id)
+    }
+
+    expect(ids).toHaveLength(15)
+    expect(requestedUrls).toHaveLength(2)
+  })
+
+  it('should default per_page to 100 and pass filters through', async () => {
+    mockCollection(mockOrder, 3)
+
+    const orders = []
+    for await (const order of client.orders.iterate({ status: 'processing' })) {
+      orders.push(order)
+    }
+
+    expect(orders).toHaveLength(3)
+    expect(requestedUrls[0]).toContain('per_page=100')
+    expect(requestedUrls[0]).toContain('status=processing')
+  })
+
+  it('should iterate nested collections', async () => {
+    mockCollection({ id: 0 }, 2)
+
+    const variations = []
+    for await (const variation of client.variations.iterate(123)) {
+      variations.push(variation)
+    }
+
+    expect(variations).toHaveLength(2)
+    expect(requestedUrls[0]).toContain('/wp-json/wc/v3/products/123/variations?')
+  })
+
+  describe('listAll with concurrency', () => {
+    it('should fetch remaining pages in parallel and preserve order', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      mockFetchWith(async input => {
+        const url = new URL(input.toString())
+        requestedUrls.push(url.toString())
+        const page = Number(url.searchParams.get('page'))
+
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        // Later pages resolve first to verify ordering
+        await new Promise(resolve => setTimeout(resolve, 50 - page * 5))
+        inFlight--
+
+        const items = Array.from({ length: 10 }, (_, i) => ({
+          ...mockOrder,
+          id: (page - 1) * 10 + i + 1,
+        }))
+        return mockFetchResponse(items, 200, { 'x-wp-total': '80', 'x-wp-totalpages': '8' })
+      })
+
+      const orders = await client.orders.listAll({ per_page: 10 }, { concurrency: 3 })
+
+      expect(orders.map(order => order.id)).toEqual(Array.from({ length: 80 }, (_, i) => i + 1))
+      expect(requestedUrls).toHaveLength(8)
+      expect(maxInFlight).toBe(3)
+    })
+
+    it('should not fetch further pages when the first page is the last one', async () => {
+      mockCollection(mockProduct, 5)
+
+      const products = await client.products.listAll({ per_page: 10 }, { concurrency: 4 })
+
+      expect(products).toHaveLength(5)
+      expect(requestedUrls).toHaveLength(1)
+    })
+
+    it('should support getAll helpers', async () => {
+      mockCollection(mockOrder, 250)
+
+      const orders = await client.orders.getAll('processing', 100, { concurrency: 2 })
+
+      expect(orders).toHaveLength(250)
+      expect(requestedUrls).toHaveLength(3)
+    })
+
+    it('should stop fetching pages after a page fails', async () => {
+      mockFetchWith(async input => {
+        const url = new URL(input.toString())
+        requestedUrls.push(url.toString())
+        const page = Number(url.searchParams.get('page'))
+
+        if (page === 2) {
+          return mockFetchResponse({ code: 'rest_invalid_param', message: 'Invalid page' }, 400)
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 5))
+        return mockFetchResponse([mockOrder], 200, { 'x-wp-total': '50', 'x-wp-totalpages': '50' })
+      })
+
+      await expect(
+        client.orders.listAll({ per_page: 1 }, { concurrency: 2 })
+      ).rejects.toMatchObject({ statusCode: 400 })
+
+      // Let the worker still in flight settle, it must not pick up further pages
+      await new Promise(resolve => setTimeout(resolve, 50))
+
+      // Page 1, then pages 2 and 3 in parallel, nothing after page 2 failed
+      expect(requestedUrls).toHaveLength(3)
+    })
+  })
+})
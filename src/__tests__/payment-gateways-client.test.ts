@@ -0,0 +1,85 @@
+/**
+ * Tests for PaymentGatewaysClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { PaymentGatewaysClient } from '../client/payment-gateways-client'
+import { WooCommerceValidationError } from '../errors'
+import type { PaymentGatewaySetting, WooCommercePaymentGateway } from '../types'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+function setting(overrides: Partial<PaymentGatewaySetting>): PaymentGatewaySetting {
+  return {
+    id: 'title',
+    label: 'Title',
+    description: '',
+    type: 'text',
+    value: '',
+    default: '',
+    tip: '',
+    placeholder: '',
+    ...overrides,
+  }
+}
+
+const stripe: WooCommercePaymentGateway = {
+  id: 'stripe',
+  title: 'Credit card',
+  description: 'Pay with your credit card',
+  order: 1,
+  enabled: true,
+  method_title: 'Stripe',
+  method_description: 'Stripe payments',
+  method_supports: ['products', 'refunds'],
+  settings: {
+    title: setting({ id: 'title', value: 'Credit card' }),
+    testmode: setting({ id: 'testmode', label: 'Test mode', type: 'checkbox', value: 'no' }),
+    capture: setting({
+      id: 'capture',
+      label: 'Capture',
+      type: 'select',
+      value: 'auto',
+      options: { auto: 'Automatic', manual: 'Manual' },
+    }),
+  },
+}
+
+describe('PaymentGatewaysClient', () => {
+  let client: PaymentGatewaysClient
+  let originalFetch: typeof global.fetch
+  let updates: unknown[]
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new PaymentGatewaysClient(mockConfig)
+    updates = []
+    mockFetchWith(async (_url, options) => {
+      if (options?.method === 'PUT') {
+        updates.push(JSON.parse(options.body as string))
+      }
+      return mockFetchResponse(stripe)
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('updateSettings', () => {
+    it('should send settings that match the gateway schema', async () => {
+      await client.updateSettings('stripe', { testmode: 'yes', capture: 'manual' })
+
+      expect(updates).toEqual([{ settings: { testmode: 'yes', capture: 'manual' } }])
+    })
+
+    it('should reject unknown settings and invalid values without updating', async () => {
+      const error = await client
+        .updateSettings('stripe', { testmode: 'true', capture: 'later', test_mode: 'yes' })
+        .catch(e => e)
+
+      expect(error).toBeInstanceOf(WooCommerceValidationError)
+      expect(Object.keys(error.errors)).toEqual(['testmode', 'capture', 'test_mode'])
+      expect(updates).toEqual([])
+    })
+  })
+})
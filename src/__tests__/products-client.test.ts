@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest'
 import { ProductsClient } from '../client/products-client'
-import { mockConfig, mockFetchResponse, mockFetch, mockProduct } from './setup'
+import { mockConfig, mockFetchResponse, mockFetch, mockFetchWith, mockProduct } from './setup'
 
 describe('ProductsClient', () => {
   let client: ProductsClient
@@ -49,6 +49,54 @@ describe('ProductsClient', () => {
     })
   })
 
+  describe('listPage', () => {
+    it('should return products with pagination metadata', async () => {
+      const products = [mockProduct, { ...mockProduct, id: 124 }]
+      mockFetch(
+        mockFetchResponse(products, 200, {
+          'x-wp-total': '42',
+          'x-wp-totalpages': '21',
+          link: '<https://example.com/wp-json/wc/v3/products?page=1&per_page=2>; rel="prev", <https://example.com/wp-json/wc/v3/products?page=3&per_page=2&consumer_key=ck&consumer_secret=cs>; rel="next"',
+        })
+      )
+
+      const result = await client.listPage({ page: 2, per_page: 2 })
+
+      expect(result.data).toEqual(products)
+      expect(result.total).toBe(42)
+      expect(result.totalPages).toBe(21)
+      expect(result.page).toBe(2)
+      expect(result.perPage).toBe(2)
+      expect(result.links.prev).toBe('https://example.com/wp-json/wc/v3/products?page=1&per_page=2')
+      expect(result.links.next).toBe('https://example.com/wp-json/wc/v3/products?page=3&per_page=2')
+    })
+
+    it('should default page and perPage when not requested', async () => {
+      mockFetch(mockFetchResponse([mockProduct]))
+
+      const result = await client.listPage()
+
+      expect(result.page).toBe(1)
+      expect(result.perPage).toBe(10)
+      expect(result.links).toEqual({})
+    })
+
+    it('should report the page and page size of query overrides', async () => {
+      let requested: URL | undefined
+      mockFetchWith(async url => {
+        requested = new URL(String(url))
+        return mockFetchResponse([mockProduct])
+      })
+
+      const result = await client.listPage({}, { query: { page: 3, per_page: 50 } })
+
+      expect(requested?.searchParams.get('page')).toBe('3')
+      expect(requested?.searchParams.get('per_page')).toBe('50')
+      expect(result.page).toBe(3)
+      expect(result.perPage).toBe(50)
+    })
+  })
+
   describe('getProduct', () => {
     it('should retrieve a single product', async () => {
       mockFetch(mockFetchResponse(mockProduct))
@@ -0,0 +1,172 @@
+/**
+ * Tests for the client-side rate limiter
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { RateLimiter } from '../client/rate-limiter'
+import { WooCommerceClient } from '../client'
+import { WooCommerceRateLimitError } from '../errors'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+describe('RateLimiter', () => {
+  it('should space requests according to requestsPerSecond', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 })
+    const start = Date.now()
+
+    await Promise.all([1, 2, 3].map(() => limiter.schedule(async () => undefined)))
+
+    // First request uses the burst token, the next two wait ~50ms each
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90)
+  })
+
+  it('should cap the number of concurrent tasks', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 })
+    let inFlight = 0
+    let maxInFlight = 0
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.schedule(async () => {
+          inFlight++
+          maxInFlight = Math.max(maxInFlight, inFlight)
+          await new Promise(resolve => setTimeout(resolve, 10))
+          inFlight--
+        })
+      )
+    )
+
+    expect(maxInFlight).toBe(2)
+  })
+
+  it('should pause and slow down after a rate limit error', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100 })
+
+    await expect(
+      limiter.schedule(async () => {
+        throw new WooCommerceRateLimitError('Too many requests', undefined, 0.1)
+      })
+    ).rejects.toThrow(WooCommerceRateLimitError)
+
+    expect(limiter.currentRate).toBe(50)
+
+    const start = Date.now()
+    await limiter.schedule(async () => undefined)
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90)
+    expect(limiter.currentRate).toBeGreaterThan(50)
+  })
+
+  it('should not adapt when adaptive is disabled', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, adaptive: false })
+
+    await expect(
+      limiter.schedule(async () => {
+        throw new WooCommerceRateLimitError()
+      })
+    ).rejects.toThrow(WooCommerceRateLimitError)
+
+    expect(limiter.currentRate).toBe(100)
+  })
+
+  it('should take aborted tasks out of the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 })
+    const controller = new AbortController()
+    const ran: string[] = []
+    let release: () => void = () => undefined
+
+    const first = limiter.schedule(async () => {
+      ran.push('first')
+      await new Promise<void>(resolve => (release = resolve))
+    })
+    const aborted = limiter.schedule(async () => {
+      ran.push('aborted')
+    }, controller.signal)
+    const third = limiter.schedule(async () => {
+      ran.push('third')
+    })
+
+    controller.abort()
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' })
+
+    release()
+    await Promise.all([first, third])
+
+    expect(ran).toEqual(['first', 'third'])
+  })
+
+  describe('with WooCommerceClient', () => {
+    let originalFetch: typeof global.fetch
+
+    beforeEach(() => {
+      originalFetch = global.fetch
+    })
+
+    afterEach(() => {
+      global.fetch = originalFetch
+    })
+
+    it('should share one budget across resource clients', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      mockFetchWith(async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        inFlight--
+        return mockFetchResponse([])
+      })
+
+      const client = new WooCommerceClient({ ...mockConfig, rateLimit: { maxConcurrent: 1 } })
+
+      await Promise.all([
+        client.products.list(),
+        client.orders.list(),
+        client.customers.list(),
+        client.coupons.list(),
+      ])
+
+      expect(maxInFlight).toBe(1)
+    })
+
+    it('should accept a limiter instance shared between clients', async () => {
+      const limiter = new RateLimiter({ maxConcurrent: 1 })
+      let inFlight = 0
+      let maxInFlight = 0
+      mockFetchWith(async () => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        inFlight--
+        return mockFetchResponse([])
+      })
+
+      const first = new WooCommerceClient({ ...mockConfig, rateLimit: limiter })
+      const second = new WooCommerceClient({ ...mockConfig, rateLimit: limiter })
+
+      await Promise.all([first.products.list(), second.products.list()])
+
+      expect(maxInFlight).toBe(1)
+    })
+
+    it('should not count time queued in the limiter against the request timeout', async () => {
+      let sent = 0
+      mockFetchWith(async () => {
+        sent++
+        return mockFetchResponse({ id: 1 })
+      })
+
+      const client = new WooCommerceClient({
+        ...mockConfig,
+        timeout: 100,
+        rateLimit: { requestsPerSecond: 20, burst: 1 },
+      })
+
+      // The last request waits ~200ms for its token, twice the timeout
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => client.products.getProduct(1))
+      )
+
+      expect(results).toHaveLength(5)
+      expect(sent).toBe(5)
+    })
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Tests for ReportsClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ReportsClient } from '../client/reports-client'
+import { WooCommerceError } from '../errors'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+const salesReport = {
+  total_sales: '150.00',
+  net_sales: '135.00',
+  average_sales: '135.00',
+  total_orders: 3,
+  total_items: 5,
+  total_tax: '10.00',
+  total_shipping: '5.00',
+  total_refunds: 0,
+  total_discount: '0.00',
+  totals_grouped_by: 'day',
+  totals: {
+    '2024-05-01': {
+      sales: '150.00',
+      orders: 3,
+      items: 5,
+      tax: '10.00',
+      shipping: '5.00',
+      discount: '0.00',
+      customers: 1,
+    },
+  },
+  total_customers: 1,
+}
+
+describe('ReportsClient', () => {
+  let client: ReportsClient
+  let originalFetch: typeof global.fetch
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new ReportsClient(mockConfig)
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('getSales', () => {
+    it('should unwrap the sales report and pass the date range', async () => {
+      let url: URL | undefined
+      mockFetchWith(async input => {
+        url = new URL(String(input))
+        return mockFetchResponse([salesReport])
+      })
+
+      const report = await client.getSales({ date_min: '2024-05-01', date_max: '2024-05-01' })
+
+      expect(url?.pathname).toBe('/wp-json/wc/v3/reports/sales')
+      expect(url?.searchParams.get('date_min')).toBe('2024-05-01')
+      expect(report.totals['2024-05-01']?.orders).toBe(3)
+    })
+
+    it('should throw when the response contains no report', async () => {
+      mockFetchWith(async () => mockFetchResponse([]))
+
+      await expect(client.getSales({ period: 'week' })).rejects.toBeInstanceOf(WooCommerceError)
+    })
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Tests for per-request options
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { WooCommerceClient } from '../client'
+import { WooCommerceNetworkError } from '../errors'
+import { mockConfig, mockFetchResponse, mockFetchError, mockFetchWith, mockProduct } from './setup'
+
+/**
+ * Fetch mock that never resolves until its signal is aborted
+ */
+function hangingFetch(): typeof global.fetch {
+  return async (_url, options) =>
+    new Promise<Response>((_resolve, reject) => {
+      options?.signal?.addEventListener('abort', () => {
+        const error = new Error('The operation was aborted')
+        error.name = 'AbortError'
+        reject(error)
+      })
+    })
+}
+
+describe('RequestOptions', () => {
+  let originalFetch: typeof global.fetch
+  let client: WooCommerceClient
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new WooCommerceClient(mockConfig)
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should send extra headers', async () => {
+    let headers: Record<string, string> = {}
+    mockFetchWith(async (_url, options) => {
+      headers = options?.headers as Record<string, string>
+      return mockFetchResponse(mockProduct)
+    })
+
+    await client.products.getProduct(123, { headers: { 'X-Request-Id': 'abc' } })
+
+    expect(headers['X-Request-Id']).toBe('abc')
+    expect(headers['Content-Type']).toBe('application/json')
+  })
+
+  it('should override query parameters', async () => {
+    let requestUrl = ''
+    mockFetchWith(async url => {
+      requestUrl = url.toString()
+      return mockFetchResponse([])
+    })
+
+    await client.products.list({ per_page: 10 }, { query: { per_page: 50, lang: 'es' } })
+
+    expect(requestUrl).toContain('per_page=50')
+    expect(requestUrl).not.toContain('per_page=10')
+    expect(requestUrl).toContain('lang=es')
+  })
+
+  it('should add query parameters to write requests', async () => {
+    let requestUrl = ''
+    mockFetchWith(async url => {
+      requestUrl = url.toString()
+      return mockFetchResponse(mockProduct, 201)
+    })
+
+    await client.products.create({ name: 'New' }, { query: { lang: 'fr' } })
+
+    expect(requestUrl).toContain('/products?lang=fr&consumer_key=')
+  })
+
+  it('should cancel a request when the signal is aborted', async () => {
+    mockFetchWith(hangingFetch())
+    const controller = new AbortController()
+
+    const promise = client.orders.list(undefined, { signal: controller.signal })
+    controller.abort()
+
+    await expect(promise).rejects.toThrow('Request aborted')
+  })
+
+  it('should reject immediately with an already aborted signal', async () => {
+    mockFetchWith(hangingFetch())
+
+    await expect(client.orders.getOrder(1, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(
+      WooCommerceNetworkError
+    )
+  })
+
+  it('should apply a per-request timeout', async () => {
+    mockFetchWith(hangingFetch())
+
+    await expect(client.products.batch({ create: [] }, { timeout: 20 })).rejects.toThrow(
+      'Request timeout'
+    )
+  })
+
+  it('should not retry once the signal is aborted', async () => {
+    const retryingClient = new WooCommerceClient({
+      ...mockConfig,
+      retry: { baseDelay: 1000, jitter: 'none' },
+    })
+    let calls = 0
+    mockFetchWith(async () => {
+      calls++
+      return mockFetchError(503, 'Unavailable')
+    })
+    const controller = new AbortController()
+
+    const promise = retryingClient.products.list(undefined, { signal: controller.signal })
+    setTimeout(() => controller.abort(), 20)
+
+    await expect(promise).rejects.toThrow('Request aborted')
+    expect(calls).toBe(1)
+  })
+
+  it('should pass the signal through iterators', async () => {
+    mockFetchWith(hangingFetch())
+    const controller = new AbortController()
+    const iterator = client.products.iterate({}, { signal: controller.signal })
+
+    const next = iterator.next()
+    controller.abort()
+
+    await expect(next).rejects.toThrow('Request aborted')
+  })
+})
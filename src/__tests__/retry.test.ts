@@ -0,0 +1,166 @@
+/**
+ * Tests for the automatic retry policy
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { BaseClient } from '../client/base-client'
+import {
+  WooCommerceAPIError,
+  WooCommerceError,
+  WooCommerceNotFoundError,
+  WooCommerceRateLimitError,
+} from '../errors'
+import { mockConfig, mockFetchResponse, mockFetchError, mockFetchWith } from './setup'
+
+// Test client that exposes protected methods
+class TestClient extends BaseClient {
+  public async testGet<T>(endpoint: string): Promise<T> {
+    return this.get<T>(endpoint)
+  }
+
+  public async testPost<T>(endpoint: string, body?: unknown): Promise<T> {
+    return this.post<T>(endpoint, body)
+  }
+}
+
+describe('Retry policy', () => {
+  let originalFetch: typeof global.fetch
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  /**
+   * Mocks fetch with a sequence of responses and returns a call counter
+   */
+  function mockSequence(responses: Array<() => Response>): { calls: number } {
+    const counter = { calls: 0 }
+    mockFetchWith(async () => {
+      const next = responses[Math.min(counter.calls, responses.length - 1)]!
+      counter.calls++
+      return next()
+    })
+    return counter
+  }
+
+  it('should not retry when retry is not configured', async () => {
+    const client = new TestClient(mockConfig)
+    const counter = mockSequence([() => mockFetchError(503, 'Unavailable')])
+
+    await expect(client.testGet('products')).rejects.toThrow(WooCommerceAPIError)
+    expect(counter.calls).toBe(1)
+  })
+
+  it('should retry retryable status codes and eventually succeed', async () => {
+    const client = new TestClient({ ...mockConfig, retry: { baseDelay: 1, jitter: 'none' } })
+    const counter = mockSequence([
+      () => mockFetchError(503, 'Unavailable'),
+      () => mockFetchError(502, 'Bad gateway'),
+      () => mockFetchResponse({ id: 1 }),
+    ])
+
+    const result = await client.testGet('products/1')
+
+    expect(result).toEqual({ id: 1 })
+    expect(counter.calls).toBe(3)
+  })
+
+  it('should stop after maxAttempts', async () => {
+    const client = new TestClient({ ...mockConfig, retry: { maxAttempts: 2, baseDelay: 1 } })
+    const counter = mockSequence([() => mockFetchError(500, 'Server error')])
+
+    await expect(client.testGet('products')).rejects.toThrow(WooCommerceAPIError)
+    expect(counter.calls).toBe(2)
+  })
+
+  it('should not retry non-retryable errors', async () => {
+    const client = new TestClient({ ...mockConfig, retry: { baseDelay: 1 } })
+    const counter = mockSequence([() => mockFetchError(404, 'Not found')])
+
+    await expect(client.testGet('products/999')).rejects.toThrow(WooCommerceNotFoundError)
+    expect(counter.calls).toBe(1)
+  })
+
+  it('should retry network errors', async () => {
+    const client = new TestClient({ ...mockConfig, retry: { baseDelay: 1 } })
+    let calls = 0
+    mockFetchWith(async () => {
+      calls++
+      if (calls === 1) {
+        throw new Error('fetch failed')
+      }
+      return mockFetchResponse({ id: 1 })
+    })
+
+    await expect(client.testGet('products/1')).resolves.toEqual({ id: 1 })
+    expect(calls).toBe(2)
+  })
+
+  it('should not retry POST requests unless explicitly allowed', async () => {
+    const client = new TestClient({ ...mockConfig, retry: { baseDelay: 1 } })
+    const counter = mockSequence([() => mockFetchError(503, 'Unavailable')])
+
+    await expect(client.testPost('orders', {})).rejects.toThrow(WooCommerceAPIError)
+    expect(counter.calls).toBe(1)
+  })
+
+  it('should retry POST requests when retryNonIdempotent is enabled', async () => {
+    const client = new TestClient({
+      ...mockConfig,
+      retry: { baseDelay: 1, retryNonIdempotent: true },
+    })
+    const counter = mockSequence([
+      () => mockFetchError(503, 'Unavailable'),
+      () => mockFetchResponse({ id: 1 }, 201),
+    ])
+
+    await expect(client.testPost('orders', {})).resolves.toEqual({ id: 1 })
+    expect(counter.calls).toBe(2)
+  })
+
+  it('should honor Retry-After from 429 responses', async () => {
+    const delays: number[] = []
+    const client = new TestClient({
+      ...mockConfig,
+      retry: {
+        baseDelay: 1,
+        maxDelay: 5,
+        onRetry: (_error, _attempt, delay) => delays.push(delay),
+      },
+    })
+    const rateLimited = mockFetchError(429, 'Too many requests')
+    rateLimited.headers.set('retry-after', '60')
+    const counter = mockSequence([() => rateLimited, () => mockFetchResponse({ id: 1 })])
+
+    await client.testGet('products/1')
+
+    expect(counter.calls).toBe(2)
+    // Retry-After is capped by maxDelay
+    expect(delays).toEqual([5])
+  })
+
+  it('should use custom retryable error classes and status codes', async () => {
+    const retried: WooCommerceError[] = []
+    const client = new TestClient({
+      ...mockConfig,
+      retry: {
+        baseDelay: 1,
+        retryableErrors: [],
+        retryableStatusCodes: [404],
+        onRetry: error => retried.push(error),
+      },
+    })
+    const counter = mockSequence([
+      () => mockFetchError(429, 'Too many requests'),
+      () => mockFetchResponse({ id: 1 }),
+    ])
+
+    await expect(client.testGet('products/1')).rejects.toThrow(WooCommerceRateLimitError)
+    expect(counter.calls).toBe(1)
+    expect(retried).toHaveLength(0)
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * Tests for ReviewsClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ReviewsClient } from '../client/reviews-client'
+import type { WooCommerceReview } from '../types'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+const mockReview: WooCommerceReview = {
+  id: 22,
+  date_created: '2024-05-01T10:00:00',
+  date_created_gmt: '2024-05-01T08:00:00',
+  product_id: 123,
+  product_name: 'Test Product',
+  product_permalink: 'https://example.com/product/test-product',
+  status: 'hold',
+  reviewer: 'Jane Doe',
+  reviewer_email: 'jane@example.com',
+  review: '<p>Great product</p>',
+  rating: 5,
+  verified: true,
+  reviewer_avatar_urls: {
+    '24': 'https://secure.gravatar.com/avatar/abc?s=24',
+    '48': 'https://secure.gravatar.com/avatar/abc?s=48',
+    '96': 'https://secure.gravatar.com/avatar/abc?s=96',
+  },
+}
+
+describe('ReviewsClient', () => {
+  let client: ReviewsClient
+  let originalFetch: typeof global.fetch
+  let requests: Array<{ url: URL; method?: string; body?: unknown }>
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new ReviewsClient(mockConfig)
+    requests = []
+    mockFetchWith(async (url, options) => {
+      requests.push({
+        url: new URL(String(url)),
+        method: options?.method,
+        body: options?.body ? JSON.parse(options.body as string) : undefined,
+      })
+      return mockFetchResponse(
+        options?.method === 'PUT' ? { ...mockReview, status: 'approved' } : [mockReview]
+      )
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should list reviews filtered by product, status and date', async () => {
+    const reviews = await client.list({
+      product: [123, 124],
+      status: 'hold',
+      after: '2024-05-01T00:00:00',
+    })
+
+    expect(reviews).toEqual([mockReview])
+    const { url } = requests[0]!
+    expect(url.pathname).toBe('/wp-json/wc/v3/products/reviews')
+    expect(url.searchParams.get('status')).toBe('hold')
+    expect(url.searchParams.get('after')).toBe('2024-05-01T00:00:00')
+    expect(url.search).toContain('product')
+  })
+
+  it('should moderate a review by updating its status', async () => {
+    const review = await client.moderate(22, 'approved')
+
+    expect(review.status).toBe('approved')
+    expect(requests[0]).toMatchObject({ method: 'PUT', body: { status: 'approved' } })
+    expect(requests[0]!.url.pathname).toBe('/wp-json/wc/v3/products/reviews/22')
+  })
+})
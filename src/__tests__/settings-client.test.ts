@@ -0,0 +1,97 @@
+/**
+ * Tests for SettingsClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { SettingsClient } from '../client/settings-client'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+function option(id: string, value: unknown) {
+  return {
+    id,
+    label: id,
+    description: '',
+    value,
+    default: '',
+    tip: '',
+    placeholder: '',
+    type: 'text',
+    group_id: 'general',
+  }
+}
+
+describe('SettingsClient', () => {
+  let client: SettingsClient
+  let originalFetch: typeof global.fetch
+  let requests: Array<{ path: string; method: string; body?: unknown }>
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new SettingsClient(mockConfig)
+    requests = []
+    mockFetchWith(async (url, options) => {
+      const body = options?.body ? JSON.parse(options.body as string) : undefined
+      requests.push({ path: new URL(String(url)).pathname, method: options?.method ?? 'GET', body })
+      if (options?.method === 'POST') {
+        return mockFetchResponse({
+          update: body.update.map((item: { id: string; value: unknown }) =>
+            option(item.id, item.value)
+          ),
+        })
+      }
+      return mockFetchResponse([
+        option('woocommerce_currency', 'USD'),
+        option('woocommerce_specific_allowed_countries', ['US', 'CA']),
+      ])
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should return the option values of a group keyed by option ID', async () => {
+    const values = await client.getValues('general')
+
+    expect(requests[0]?.path).toBe('/wp-json/wc/v3/settings/general')
+    expect(values.woocommerce_currency).toBe('USD')
+    expect(values.woocommerce_specific_allowed_countries).toEqual(['US', 'CA'])
+  })
+
+  it('should update option values with a single batch request', async () => {
+    const updated = await client.updateValues('products', {
+      woocommerce_weight_unit: 'kg',
+      woocommerce_notify_low_stock_amount: '5',
+      woocommerce_dimension_unit: undefined,
+    })
+
+    expect(requests).toEqual([
+      {
+        path: '/wp-json/wc/v3/settings/products/batch',
+        method: 'POST',
+        body: {
+          update: [
+            { id: 'woocommerce_weight_unit', value: 'kg' },
+            { id: 'woocommerce_notify_low_stock_amount', value: '5' },
+          ],
+        },
+      },
+    ])
+    expect(updated).toHaveLength(2)
+  })
+
+  it('should accept untyped options of extension groups', async () => {
+    await client.updateOption('my_extension', 'my_extension_mode', 'live')
+
+    expect(requests[0]).toEqual({
+      path: '/wp-json/wc/v3/settings/my_extension/my_extension_mode',
+      method: 'PUT',
+      body: { value: 'live' },
+    })
+  })
+
+  it('should not send a request when there is nothing to update', async () => {
+    expect(await client.updateValues('tax', {})).toEqual([])
+    expect(requests).toEqual([])
+  })
+})
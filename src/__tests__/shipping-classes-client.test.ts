@@ -0,0 +1,64 @@
+/**
+ * Tests for ShippingClassesClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ShippingClassesClient } from '../client/shipping-classes-client'
+import type { WooCommerceShippingClass } from '../types'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+function shippingClass(id: number, slug: string): WooCommerceShippingClass {
+  return { id, name: slug, slug, description: '', count: 0 }
+}
+
+describe('ShippingClassesClient', () => {
+  let client: ShippingClassesClient
+  let originalFetch: typeof global.fetch
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new ShippingClassesClient(mockConfig)
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('findBySlug', () => {
+    it('should look up a shipping class by slug', async () => {
+      let requested: URL | undefined
+      mockFetchWith(async url => {
+        requested = new URL(String(url))
+        return mockFetchResponse([shippingClass(7, 'bulky')])
+      })
+
+      const result = await client.findBySlug('bulky')
+
+      expect(result?.id).toBe(7)
+      expect(requested?.pathname).toBe('/wp-json/wc/v3/products/shipping_classes')
+      expect(requested?.searchParams.get('slug')).toBe('bulky')
+    })
+
+    it('should return null when no shipping class matches', async () => {
+      mockFetchWith(async () => mockFetchResponse([]))
+
+      expect(await client.findBySlug('missing')).toBeNull()
+    })
+  })
+
+  describe('getIdsBySlug', () => {
+    it('should map every slug to its ID', async () => {
+      mockFetchWith(async () =>
+        mockFetchResponse([shippingClass(1, 'bulky'), shippingClass(2, 'fragile')], 200, {
+          'x-wp-total': '2',
+          'x-wp-totalpages': '1',
+        })
+      )
+
+      const ids = await client.getIdsBySlug()
+
+      expect(ids.get('fragile')).toBe(2)
+      expect(ids.size).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Tests for ShippingClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ShippingClient } from '../client/shipping-client'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+describe('ShippingClient', () => {
+  let client: ShippingClient
+  let originalFetch: typeof global.fetch
+  let requests: Array<{ path: string; method: string; body?: unknown }>
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new ShippingClient(mockConfig)
+    requests = []
+    mockFetchWith(async (url, options) => {
+      const body = options?.body ? JSON.parse(options.body as string) : undefined
+      requests.push({ path: new URL(String(url)).pathname, method: options?.method ?? 'GET', body })
+      if (options?.method === 'GET') {
+        return mockFetchResponse([
+          { code: 'US', type: 'country' },
+          { code: 'US:CA', type: 'state' },
+        ])
+      }
+      return mockFetchResponse(body)
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('upsertZoneLocations', () => {
+    it('should add new locations to the existing ones without duplicates', async () => {
+      const locations = await client.upsertZoneLocations(3, [
+        { code: 'US:CA', type: 'state' },
+        { code: '902*', type: 'postcode' },
+      ])
+
+      expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual([
+        'GET /wp-json/wc/v3/shipping/zones/3/locations',
+        'PUT /wp-json/wc/v3/shipping/zones/3/locations',
+      ])
+      expect(locations).toEqual([
+        { code: 'US', type: 'country' },
+        { code: 'US:CA', type: 'state' },
+        { code: '902*', type: 'postcode' },
+      ])
+    })
+  })
+
+  describe('reorderZoneMethods', () => {
+    it('should update the order of each method instance in sequence', async () => {
+      await client.reorderZoneMethods(3, [8, 5])
+
+      expect(requests).toEqual([
+        { path: '/wp-json/wc/v3/shipping/zones/3/methods/8', method: 'PUT', body: { order: 0 } },
+        { path: '/wp-json/wc/v3/shipping/zones/3/methods/5', method: 'PUT', body: { order: 1 } },
+      ])
+    })
+  })
+
+  describe('disableZoneMethod', () => {
+    it('should update the enabled flag of the method instance', async () => {
+      await client.disableZoneMethod(3, 8)
+
+      expect(requests[0]).toMatchObject({ method: 'PUT', body: { enabled: false } })
+    })
+  })
+})
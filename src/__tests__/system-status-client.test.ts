@@ -0,0 +1,60 @@
+/**
+ * Tests for SystemStatusClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { SystemStatusClient } from '../client/system-status-client'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+describe('SystemStatusClient', () => {
+  let client: SystemStatusClient
+  let originalFetch: typeof global.fetch
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new SystemStatusClient(mockConfig)
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('runTool', () => {
+    it('should run the tool and surface its success and message', async () => {
+      let request: { url: URL; method?: string } | undefined
+      mockFetchWith(async (url, options) => {
+        request = { url: new URL(String(url)), method: options?.method }
+        return mockFetchResponse({
+          id: 'clear_transients',
+          name: 'WooCommerce transients',
+          action: 'Clear transients',
+          description: 'This tool will clear the product/shop transients cache.',
+          success: true,
+          message: 'Product transients cleared',
+        })
+      })
+
+      const result = await client.runTool('clear_transients')
+
+      expect(request?.method).toBe('PUT')
+      expect(request?.url.pathname).toBe('/wp-json/wc/v3/system_status/tools/clear_transients')
+      expect(result).toMatchObject({ success: true, message: 'Product transients cleared' })
+    })
+  })
+
+  describe('getStatus', () => {
+    it('should pass _fields through per-request query options', async () => {
+      let url: URL | undefined
+      mockFetchWith(async input => {
+        url = new URL(String(input))
+        return mockFetchResponse({ security: { secure_connection: true, hide_errors: true } })
+      })
+
+      const status = await client.getStatus({ query: { _fields: 'security' } })
+
+      expect(url?.pathname).toBe('/wp-json/wc/v3/system_status')
+      expect(url?.searchParams.get('_fields')).toBe('security')
+      expect(status.security.secure_connection).toBe(true)
+    })
+  })
+})
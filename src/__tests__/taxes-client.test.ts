@@ -0,0 +1,76 @@
+/**
+ * Tests for TaxesClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { TaxesClient } from '../client/taxes-client'
+import type { CreateTaxRateRequest } from '../types'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+describe('TaxesClient', () => {
+  let client: TaxesClient
+  let originalFetch: typeof global.fetch
+  let batchBodies: Array<{ create?: CreateTaxRateRequest[]; delete?: number[] }>
+  let listedClasses: Array<string | null>
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new TaxesClient(mockConfig)
+    batchBodies = []
+    listedClasses = []
+    mockFetchWith(async (url, options) => {
+      if (options?.method === 'POST') {
+        const body = JSON.parse(options.body as string)
+        batchBodies.push(body)
+        return mockFetchResponse({
+          create: (body.create ?? []).map((rate: CreateTaxRateRequest, i: number) => ({
+            ...rate,
+            id: 1000 + i,
+          })),
+        })
+      }
+      const taxClass = new URL(String(url)).searchParams.get('class')
+      listedClasses.push(taxClass)
+      return mockFetchResponse(taxClass === 'standard' ? [{ id: 1 }, { id: 2 }] : [], 200, {
+        'x-wp-total': '2',
+        'x-wp-totalpages': '1',
+      })
+    })
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('importRates', () => {
+    it('should create rates in batches of 100', async () => {
+      const rates = Array.from({ length: 150 }, (_, i) => ({
+        country: 'US',
+        postcodes: [String(10000 + i)],
+        rate: '8.0000',
+      }))
+
+      const { created, deleted } = await client.importRates(rates)
+
+      expect(batchBodies.map(body => body.create?.length)).toEqual([100, 50])
+      expect(created).toHaveLength(150)
+      expect(deleted).toEqual([])
+      expect(listedClasses).toEqual([])
+    })
+
+    it('should delete the existing rates of the imported classes when replacing', async () => {
+      const { deleted } = await client.importRates(
+        [
+          { country: 'DE', rate: '19.0000', name: 'MwSt' },
+          { country: 'DE', rate: '7.0000', name: 'MwSt', class: 'reduced-rate' },
+        ],
+        { replace: true }
+      )
+
+      expect(listedClasses).toEqual(['standard', 'reduced-rate'])
+      expect(deleted).toEqual([1, 2])
+      expect(batchBodies[0]).toEqual({ delete: [1, 2] })
+      expect(batchBodies[1]?.create).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Tests for pluggable fetch implementations and transports
+ */
+
+import { describe, it, expect } from 'vitest'
+import { WooCommerceClient } from '../client'
+import { createFetchTransport } from '../client/transport'
+import { WooCommerceNetworkError, WooCommerceNotFoundError } from '../errors'
+import type { TransportRequest, WooCommerceTransport } from '../types/transport'
+import { mockConfig, mockFetchResponse, mockFetchError, mockProduct } from './setup'
+
+describe('Transport', () => {
+  it('should use the configured fetch implementation', async () => {
+    const calls: Array<{ url: string; init: RequestInit }> = []
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      fetch: async (url, init) => {
+        calls.push({ url, init })
+        return mockFetchResponse([mockProduct])
+      },
+    })
+
+    const products = await client.products.list()
+
+    expect(products).toHaveLength(1)
+    expect(calls).toHaveLength(1)
+    expect(calls[0]?.url).toContain('https://example.com/wp-json/wc/v3/products')
+    expect(calls[0]?.init.method).toBe('GET')
+  })
+
+  it('should merge fetchOptions into every fetch call', async () => {
+    const dispatcher = { name: 'keep-alive-pool' }
+    let received: Record<string, unknown> = {}
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      fetch: async (_url, init) => {
+        received = init as Record<string, unknown>
+        return mockFetchResponse(mockProduct)
+      },
+      fetchOptions: { dispatcher },
+    })
+
+    await client.products.getProduct(123)
+
+    expect(received.dispatcher).toBe(dispatcher)
+    expect(received.signal).toBeDefined()
+  })
+
+  it('should route all resource clients through a custom transport', async () => {
+    const requests: TransportRequest[] = []
+    const transport: WooCommerceTransport = {
+      send: async request => {
+        requests.push(request)
+        return request.url.includes('/orders/')
+          ? mockFetchError(404, 'Not found')
+          : mockFetchResponse(mockProduct)
+      },
+    }
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      transport,
+      fetch: async () => {
+        throw new Error('fetch should not be used when a transport is configured')
+      },
+    })
+
+    await client.products.update(123, { name: 'Updated' })
+    await expect(client.orders.getOrder(1)).rejects.toThrow(WooCommerceNotFoundError)
+
+    expect(requests).toHaveLength(2)
+    expect(requests[0]?.method).toBe('PUT')
+    expect(requests[0]?.body).toBe(JSON.stringify({ name: 'Updated' }))
+    expect(requests[0]?.headers['Content-Type']).toBe('application/json')
+  })
+
+  it('should map transport failures to network errors', async () => {
+    const client = new WooCommerceClient({
+      ...mockConfig,
+      transport: {
+        send: async () => {
+          throw new TypeError('fetch failed')
+        },
+      },
+    })
+
+    await expect(client.products.list()).rejects.toThrow(WooCommerceNetworkError)
+  })
+
+  it('should resolve the global fetch lazily by default', async () => {
+    const originalFetch = global.fetch
+    const transport = createFetchTransport()
+    global.fetch = async () => mockFetchResponse({ ok: true })
+
+    try {
+      const response = await transport.send({
+        url: 'https://example.com',
+        method: 'GET',
+        headers: {},
+        signal: new AbortController().signal,
+      })
+
+      expect(await response.json()).toEqual({ ok: true })
+    } finally {
+      global.fetch = originalFetch
+    }
+  })
+})
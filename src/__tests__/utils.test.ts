@@ -9,6 +9,9 @@ import {
   retryWithBackoff,
   normalizeUrl,
   parsePaginationHeaders,
+  calculateBackoffDelay,
+  parseRetryAfter,
+  parseLinkHeader,
 } from '../utils'
 
 describe('Utility functions', () => {
@@ -152,6 +155,50 @@ describe('Utility functions', () => {
     })
   })
 
+  describe('calculateBackoffDelay', () => {
+    it('should grow exponentially without jitter', () => {
+      expect(calculateBackoffDelay(0, 100, 10000, 'none')).toBe(100)
+      expect(calculateBackoffDelay(1, 100, 10000, 'none')).toBe(200)
+      expect(calculateBackoffDelay(3, 100, 10000, 'none')).toBe(800)
+    })
+
+    it('should cap the delay at maxDelay', () => {
+      expect(calculateBackoffDelay(10, 100, 1000, 'none')).toBe(1000)
+    })
+
+    it('should keep jittered delays within bounds', () => {
+      for (let i = 0; i < 20; i++) {
+        const full = calculateBackoffDelay(2, 100, 10000, 'full')
+        const equal = calculateBackoffDelay(2, 100, 10000, 'equal')
+
+        expect(full).toBeGreaterThanOrEqual(0)
+        expect(full).toBeLessThan(400)
+        expect(equal).toBeGreaterThanOrEqual(200)
+        expect(equal).toBeLessThanOrEqual(400)
+      }
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay-seconds values', () => {
+      expect(parseRetryAfter('120')).toBe(120)
+    })
+
+    it('should parse HTTP-date values', () => {
+      const date = new Date(Date.now() + 30000).toUTCString()
+
+      const result = parseRetryAfter(date)
+
+      expect(result).toBeGreaterThanOrEqual(29)
+      expect(result).toBeLessThanOrEqual(31)
+    })
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined()
+      expect(parseRetryAfter('soon')).toBeUndefined()
+    })
+  })
+
   describe('normalizeUrl', () => {
     it('should add https:// if no protocol', () => {
       const result = normalizeUrl('example.com')
@@ -218,4 +265,28 @@ describe('Utility functions', () => {
       expect(result.totalPages).toBeNaN()
     })
   })
+
+  describe('parseLinkHeader', () => {
+    it('should parse next and prev relations', () => {
+      const header =
+        '<https://example.com/wp-json/wc/v3/orders?page=1>; rel="prev", <https://example.com/wp-json/wc/v3/orders?page=3>; rel="next"'
+
+      const result = parseLinkHeader(header)
+
+      expect(result).toEqual({
+        prev: 'https://example.com/wp-json/wc/v3/orders?page=1',
+        next: 'https://example.com/wp-json/wc/v3/orders?page=3',
+      })
+    })
+
+    it('should ignore unknown relations', () => {
+      const result = parseLinkHeader('<https://example.com/wp-json/>; rel="https://api.w.org/"')
+
+      expect(result).toEqual({})
+    })
+
+    it('should return empty links for a missing header', () => {
+      expect(parseLinkHeader(null)).toEqual({})
+    })
+  })
 })
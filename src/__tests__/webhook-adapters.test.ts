@@ -0,0 +1,236 @@
+/**
+ * Tests for webhook HTTP adapters
+ */
+
+import { Readable } from 'node:stream'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { describe, it, expect, vi } from 'vitest'
+import {
+  WebhookRouter,
+  computeWebhookSignature,
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+  createNodeWebhookHandler,
+} from '../webhooks'
+import { mockOrder } from './setup'
+
+const secret = 'webhook-secret'
+const body = JSON.stringify(mockOrder)
+const headers = {
+  'content-type': 'application/json',
+  'x-wc-webhook-topic': 'order.created',
+  'x-wc-webhook-resource': 'order',
+  'x-wc-webhook-event': 'created',
+  'x-wc-webhook-signature': computeWebhookSignature(body, secret),
+  'x-wc-webhook-id': '42',
+  'x-wc-webhook-delivery-id': 'abc123',
+}
+
+function createRequest(
+  raw: string,
+  requestHeaders: Record<string, string> = headers,
+  extra: Record<string, unknown> = {}
+): IncomingMessage {
+  return Object.assign(Readable.from([Buffer.from(raw)]), {
+    method: 'POST',
+    headers: requestHeaders,
+    ...extra,
+  }) as unknown as IncomingMessage
+}
+
+function createResponse() {
+  const res = { writeHead: vi.fn(), end: vi.fn() }
+  return {
+    res: res as unknown as ServerResponse,
+    status: () => res.writeHead.mock.calls[0]?.[0],
+    json: () => JSON.parse(res.end.mock.calls[0]?.[0]),
+  }
+}
+
+describe('Webhook adapters', () => {
+  describe('createNodeWebhookHandler', () => {
+    it('should read the raw body and respond 200 to verified deliveries', async () => {
+      const handler = vi.fn()
+      const { res, status, json } = createResponse()
+
+      await createNodeWebhookHandler(new WebhookRouter({ secret }).on('order.created', handler))(
+        createRequest(body),
+        res
+      )
+
+      expect(status()).toBe(200)
+      expect(json()).toEqual({ received: true, type: 'delivery' })
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ data: mockOrder }))
+    })
+
+    it('should respond 401 to tampered deliveries', async () => {
+      const { res, status, json } = createResponse()
+
+      await createNodeWebhookHandler(new WebhookRouter({ secret }))(
+        createRequest(body.replace('1', '2')),
+        res
+      )
+
+      expect(status()).toBe(401)
+      expect(json()).toMatchObject({ reason: 'invalid_signature' })
+    })
+
+    it('should respond 200 to pings', async () => {
+      const { res, status, json } = createResponse()
+
+      await createNodeWebhookHandler(new WebhookRouter({ secret }))(
+        createRequest('webhook_id=42', {}),
+        res
+      )
+
+      expect(status()).toBe(200)
+      expect(json()).toEqual({ received: true, type: 'ping' })
+    })
+
+    it('should respond 500 when a handler fails unless errors are acknowledged', async () => {
+      const router = new WebhookRouter({ secret }).on('order.created', () => {
+        throw new Error('database down')
+      })
+      const failing = createResponse()
+      const acknowledged = createResponse()
+
+      await createNodeWebhookHandler(router)(createRequest(body), failing.res)
+      await createNodeWebhookHandler(router, { acknowledgeErrors: true })(
+        createRequest(body),
+        acknowledged.res
+      )
+
+      expect(failing.status()).toBe(500)
+      expect(failing.json()).toEqual({ error: 'Webhook handler failed' })
+      expect(acknowledged.status()).toBe(200)
+    })
+
+    it('should respond 405 to other methods', async () => {
+      const { res, status } = createResponse()
+
+      await createNodeWebhookHandler(new WebhookRouter({ secret }))(
+        createRequest('', {}, { method: 'GET' }),
+        res
+      )
+
+      expect(status()).toBe(405)
+    })
+
+    it('should respond 400 instead of rejecting when the request stream fails', async () => {
+      const { res, status } = createResponse()
+      const request = Object.assign(
+        new Readable({
+          read() {
+            this.destroy(new Error('aborted'))
+          },
+        }),
+        { method: 'POST', headers }
+      ) as unknown as IncomingMessage
+
+      await expect(
+        createNodeWebhookHandler(new WebhookRouter({ secret }))(request, res)
+      ).resolves.toBeUndefined()
+
+      expect(status()).toBe(400)
+    })
+  })
+
+  describe('createExpressWebhookHandler', () => {
+    const consumed = { readableEnded: true }
+
+    it('should read the request stream when no body parser ran', async () => {
+      const { res, status } = createResponse()
+      const next = vi.fn()
+
+      await createExpressWebhookHandler(new WebhookRouter({ secret }))(
+        createRequest(body),
+        res,
+        next
+      )
+
+      expect(status()).toBe(200)
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should use the raw body left by express.raw()', async () => {
+      const { res, status } = createResponse()
+      const request = {
+        headers,
+        body: Buffer.from(body),
+        ...consumed,
+      } as unknown as IncomingMessage
+
+      await createExpressWebhookHandler(new WebhookRouter({ secret }))(request, res, vi.fn())
+
+      expect(status()).toBe(200)
+    })
+
+    it('should use a raw body captured by a JSON parser verify hook', async () => {
+      const { res, status } = createResponse()
+      const request = {
+        headers,
+        body: mockOrder,
+        rawBody: Buffer.from(body),
+        ...consumed,
+      } as unknown as IncomingMessage
+
+      await createExpressWebhookHandler(new WebhookRouter({ secret }))(request, res, vi.fn())
+
+      expect(status()).toBe(200)
+    })
+
+    it('should acknowledge pings parsed by express.urlencoded()', async () => {
+      const { res, json } = createResponse()
+      const request = {
+        headers: {},
+        body: { webhook_id: '42' },
+        ...consumed,
+      } as unknown as IncomingMessage
+
+      await createExpressWebhookHandler(new WebhookRouter({ secret }))(request, res, vi.fn())
+
+      expect(json()).toEqual({ received: true, type: 'ping' })
+    })
+
+    it('should pass an error to next when the raw body was consumed by express.json()', async () => {
+      const { res } = createResponse()
+      const next = vi.fn()
+      const request = { headers, body: mockOrder, ...consumed } as unknown as IncomingMessage
+
+      await createExpressWebhookHandler(new WebhookRouter({ secret }))(request, res, next)
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining('raw body') })
+      )
+      expect(res.writeHead).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createFetchWebhookHandler', () => {
+    it('should handle Fetch API requests', async () => {
+      const handler = vi.fn()
+      const fetchHandler = createFetchWebhookHandler(
+        new WebhookRouter({ secret }).on('order.*', handler)
+      )
+
+      const response = await fetchHandler(
+        new Request('https://example.com/webhooks', { method: 'POST', headers, body })
+      )
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ received: true, type: 'delivery' })
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('should respond 401 to unsigned deliveries', async () => {
+      const { 'x-wc-webhook-signature': _, ...unsigned } = headers
+      const fetchHandler = createFetchWebhookHandler(new WebhookRouter({ secret }))
+
+      const response = await fetchHandler(
+        new Request('https://example.com/webhooks', { method: 'POST', headers: unsigned, body })
+      )
+
+      expect(response.status).toBe(401)
+    })
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Tests for webhook delivery replay
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  WebhookRouter,
+  buildReplayRequest,
+  computeWebhookSignature,
+  replayWebhookDeliveries,
+  replayWebhookDelivery,
+} from '../webhooks'
+import type { FailedWebhookDelivery, FetchLike } from '../types'
+import { mockOrder } from './setup'
+
+const secret = 'webhook-secret'
+const body = JSON.stringify(mockOrder)
+
+function failedDelivery(id = 7): FailedWebhookDelivery {
+  return {
+    webhook: {
+      id: 42,
+      name: 'Orders',
+      status: 'active',
+      topic: 'order.created',
+      resource: 'order',
+      event: 'created',
+      hooks: [],
+      delivery_url: 'https://hooks.example.com/wc',
+      date_created: '2024-01-01T00:00:00',
+      date_created_gmt: '2024-01-01T00:00:00',
+      date_modified: '2024-01-01T00:00:00',
+      date_modified_gmt: '2024-01-01T00:00:00',
+    },
+    delivery: {
+      id,
+      duration: '5.0',
+      summary: 'HTTP 502 Bad Gateway',
+      request_url: 'https://hooks.example.com/wc',
+      request_headers: {
+        'User-Agent': 'WooCommerce/8.0 Hookshot (WordPress/6.4)',
+        'X-WC-Webhook-Source': 'https://store.example.com/',
+        'X-WC-Webhook-Delivery-ID': 'a1b2c3',
+        'X-WC-Webhook-Signature': 'stale-signature',
+      },
+      request_body: body,
+      response_code: '502',
+      response_message: 'Bad Gateway',
+      response_headers: {},
+      response_body: '',
+      date_created: '2024-05-01T12:00:00',
+      date_created_gmt: '2024-05-01T12:00:00',
+    },
+  }
+}
+
+describe('Webhook replay', () => {
+  it('should rebuild the delivery headers with a fresh signature', () => {
+    const request = buildReplayRequest(failedDelivery(), secret)
+
+    expect(request.body).toBe(body)
+    expect(request.headers).toEqual({
+      'content-type': 'application/json',
+      'x-wc-webhook-topic': 'order.created',
+      'x-wc-webhook-resource': 'order',
+      'x-wc-webhook-event': 'created',
+      'x-wc-webhook-id': '42',
+      'x-wc-webhook-delivery-id': 'a1b2c3',
+      'x-wc-webhook-source': 'https://store.example.com/',
+      'x-wc-webhook-signature': computeWebhookSignature(body, secret),
+    })
+  })
+
+  it('should post the delivery to a URL target', async () => {
+    const fetchImpl = vi.fn<FetchLike>(async () => new Response(null, { status: 204 }))
+
+    const result = await replayWebhookDelivery(failedDelivery(), {
+      secret,
+      target: 'https://hooks.example.com/wc',
+      fetch: fetchImpl,
+    })
+
+    expect(result).toEqual({ webhookId: 42, deliveryId: 7, status: 204, ok: true })
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'https://hooks.example.com/wc',
+      expect.objectContaining({ method: 'POST', body })
+    )
+  })
+
+  it('should report network failures for URL targets', async () => {
+    const error = new Error('ECONNREFUSED')
+
+    const result = await replayWebhookDelivery(failedDelivery(), {
+      secret,
+      target: 'https://hooks.example.com/wc',
+      fetch: async () => {
+        throw error
+      },
+    })
+
+    expect(result).toMatchObject({ status: 0, ok: false, error })
+  })
+
+  it('should dispatch to a webhook router, which verifies the fresh signature', async () => {
+    const handler = vi.fn()
+    const router = new WebhookRouter({ secret }).on('order.created', handler)
+
+    const result = await replayWebhookDelivery(failedDelivery(), { secret, target: router })
+
+    expect(result.ok).toBe(true)
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ delivery_id: 'a1b2c3', data: mockOrder })
+    )
+  })
+
+  it('should replay several deliveries to a local handler in order', async () => {
+    const failure = new Error('still failing')
+    const target = vi.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(failure)
+
+    const results = await replayWebhookDeliveries([failedDelivery(1), failedDelivery(2)], {
+      secret,
+      target,
+    })
+
+    expect(target).toHaveBeenCalledTimes(2)
+    expect(results.map(result => result.ok)).toEqual([true, false])
+    expect(results[1]).toMatchObject({ deliveryId: 2, status: 500, error: failure })
+  })
+})
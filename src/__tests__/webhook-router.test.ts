@@ -0,0 +1,180 @@
+/**
+ * Tests for WebhookRouter
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { WebhookRouter, computeWebhookSignature } from '../webhooks'
+import { WooCommerceWebhookError } from '../errors'
+import type { RawWebhookRequest, WebhookPayload } from '../types'
+import { mockOrder, mockProduct } from './setup'
+
+const secret = 'webhook-secret'
+
+function delivery(topic: string, data: unknown, deliveryId = 'd1'): RawWebhookRequest {
+  const body = JSON.stringify(data)
+  const [resource, event] = topic.split('.')
+
+  return {
+    headers: {
+      'x-wc-webhook-topic': topic,
+      'x-wc-webhook-resource': resource,
+      'x-wc-webhook-event': event,
+      'x-wc-webhook-signature': computeWebhookSignature(body, secret),
+      'x-wc-webhook-id': '42',
+      'x-wc-webhook-delivery-id': deliveryId,
+    },
+    body,
+  }
+}
+
+describe('WebhookRouter', () => {
+  it('should dispatch deliveries to handlers registered for the topic', async () => {
+    const created = vi.fn()
+    const updated = vi.fn()
+    const router = new WebhookRouter({ secret })
+      .on('order.created', created)
+      .on('order.updated', updated)
+
+    const result = await router.handle(delivery('order.created', mockOrder))
+
+    expect(result).toMatchObject({ type: 'delivery', handled: 1 })
+    expect(created).toHaveBeenCalledWith(
+      expect.objectContaining({ topic: 'order.created', data: mockOrder })
+    )
+    expect(updated).not.toHaveBeenCalled()
+  })
+
+  it('should match resource, event and catch-all wildcards in registration order', async () => {
+    const calls: string[] = []
+    const router = new WebhookRouter({ secret })
+      .on('*', () => void calls.push('*'))
+      .on('product.*', () => void calls.push('product.*'))
+      .on('*.deleted', () => void calls.push('*.deleted'))
+      .on('order.*', () => void calls.push('order.*'))
+
+    await router.handle(delivery('product.deleted', { id: mockProduct.id }))
+
+    expect(calls).toEqual(['*', 'product.*', '*.deleted'])
+  })
+
+  it('should match action topics', async () => {
+    const handler = vi.fn()
+    const router = new WebhookRouter({ secret }).on('action.*', handler)
+
+    await router.handle(
+      delivery('action.woocommerce_add_to_cart', { action: 'woocommerce_add_to_cart', arg: 'x' })
+    )
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('should acknowledge unsigned pings without dispatching', async () => {
+    const onPing = vi.fn()
+    const handler = vi.fn()
+    const router = new WebhookRouter({ secret, onPing }).on('*', handler)
+
+    const result = await router.handle({
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'webhook_id=42',
+    })
+
+    expect(result).toEqual({ type: 'ping', webhookId: 42 })
+    expect(onPing).toHaveBeenCalledWith(42)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should reject tampered deliveries', async () => {
+    const handler = vi.fn()
+    const router = new WebhookRouter({ secret }).on('*', handler)
+    const request = delivery('order.created', mockOrder)
+
+    await expect(
+      router.handle({ ...request, body: (request.body as string).replace('1', '2') })
+    ).rejects.toBeInstanceOf(WooCommerceWebhookError)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should run middleware around handlers and allow skipping them', async () => {
+    const seen = new Set<string>()
+    const calls: string[] = []
+    const router = new WebhookRouter({ secret })
+      .use(async (_payload, next) => {
+        calls.push('before')
+        await next()
+        calls.push('after')
+      })
+      .use(async (payload, next) => {
+        if (seen.has(payload.delivery_id)) return
+        seen.add(payload.delivery_id)
+        await next()
+      })
+      .on('order.created', () => void calls.push('handler'))
+
+    await router.handle(delivery('order.created', mockOrder, 'same'))
+    await router.handle(delivery('order.created', mockOrder, 'same'))
+
+    expect(calls).toEqual(['before', 'handler', 'after', 'before', 'after'])
+  })
+
+  describe('error policy', () => {
+    const failure = new Error('handler failed')
+
+    function createRouter(errorPolicy?: 'throw' | 'collect' | 'ignore') {
+      const onError = vi.fn()
+      const second = vi.fn()
+      const router = new WebhookRouter({ secret, errorPolicy, onError })
+        .on('order.created', () => {
+          throw failure
+        })
+        .on('order.*', second)
+
+      return { router, onError, second }
+    }
+
+    it('should stop at the first failing handler by default', async () => {
+      const { router, onError, second } = createRouter()
+
+      await expect(router.handle(delivery('order.created', mockOrder))).rejects.toBe(failure)
+      expect(onError).toHaveBeenCalledWith(
+        failure,
+        expect.objectContaining({ topic: 'order.created' })
+      )
+      expect(second).not.toHaveBeenCalled()
+    })
+
+    it('should run all handlers and aggregate errors with the collect policy', async () => {
+      const { router, second } = createRouter('collect')
+
+      await expect(router.handle(delivery('order.created', mockOrder))).rejects.toBeInstanceOf(
+        AggregateError
+      )
+      expect(second).toHaveBeenCalled()
+    })
+
+    it('should resolve with the ignore policy', async () => {
+      const { router, onError, second } = createRouter('ignore')
+
+      await expect(router.handle(delivery('order.created', mockOrder))).resolves.toMatchObject({
+        handled: 2,
+      })
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(second).toHaveBeenCalled()
+    })
+  })
+
+  it('should dispatch already verified payloads', async () => {
+    const handler = vi.fn()
+    const router = new WebhookRouter({ secret }).on('product.updated', handler)
+    const payload = {
+      webhook_id: 1,
+      delivery_id: 'd',
+      topic: 'product.updated',
+      resource: 'product',
+      event: 'updated',
+      data: mockProduct,
+    } as WebhookPayload
+
+    await expect(router.dispatch(payload)).resolves.toBe(1)
+    expect(handler).toHaveBeenCalledWith(payload)
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Tests for WebhooksClient
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { WebhooksClient } from '../client/webhooks-client'
+import type { DesiredWebhook, WebhookDelivery, WooCommerceWebhook } from '../types'
+import { mockConfig, mockFetchResponse, mockFetchWith } from './setup'
+
+const deliveryUrl = 'https://hooks.example.com/woocommerce'
+
+function webhook(overrides: Partial<WooCommerceWebhook>): WooCommerceWebhook {
+  return {
+    id: 1,
+    name: 'Order created',
+    status: 'active',
+    topic: 'order.created',
+    resource: 'order',
+    event: 'created',
+    hooks: [],
+    delivery_url: deliveryUrl,
+    secret: 'secret',
+    date_created: '2024-01-01T00:00:00',
+    date_created_gmt: '2024-01-01T00:00:00',
+    date_modified: '2024-01-01T00:00:00',
+    date_modified_gmt: '2024-01-01T00:00:00',
+    ...overrides,
+  }
+}
+
+describe('WebhooksClient', () => {
+  let client: WebhooksClient
+  let originalFetch: typeof global.fetch
+  let batchBodies: unknown[]
+  let listUrl: string
+
+  function mockStore(existing: WooCommerceWebhook[]): void {
+    mockFetchWith(async (url, options) => {
+      if (options?.method === 'POST') {
+        batchBodies.push(JSON.parse(options.body as string))
+        return mockFetchResponse({ create: [], update: [], delete: [] })
+      }
+      listUrl = String(url)
+      return mockFetchResponse(existing)
+    })
+  }
+
+  beforeEach(() => {
+    originalFetch = global.fetch
+    client = new WebhooksClient(mockConfig)
+    batchBodies = []
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('ensure', () => {
+    const desired: DesiredWebhook[] = [
+      {
+        name: 'Order created',
+        topic: 'order.created',
+        delivery_url: deliveryUrl,
+        secret: 'secret',
+      },
+      { name: 'Product updated', topic: 'product.updated', delivery_url: deliveryUrl },
+    ]
+
+    it('should create missing webhooks and reactivate disabled ones in one batch', async () => {
+      mockStore([webhook({ id: 1, status: 'disabled' })])
+
+      const { plan, applied } = await client.ensure(desired)
+
+      expect(listUrl).toContain('context=edit')
+      expect(plan).toEqual({
+        create: [
+          {
+            name: 'Product updated',
+            topic: 'product.updated',
+            delivery_url: deliveryUrl,
+            status: 'active',
+          },
+        ],
+        update: [{ id: 1, status: 'active' }],
+        delete: [],
+        unchanged: [],
+      })
+      expect(applied).toBe(true)
+      expect(batchBodies).toEqual([{ create: plan.create, update: plan.update }])
+    })
+
+    it('should update drifted names and secrets', async () => {
+      mockStore([
+        webhook({ id: 1, name: 'Old name', secret: 'rotated' }),
+        webhook({ id: 2, topic: 'product.updated', name: 'Product updated' }),
+      ])
+
+      const { plan } = await client.ensure(desired)
+
+      expect(plan.update).toEqual([{ id: 1, name: 'Order created', secret: 'secret' }])
+      expect(plan.unchanged).toEqual([2])
+    })
+
+    it('should delete duplicates and prune only selected webhooks', async () => {
+      mockStore([
+        webhook({ id: 1 }),
+        webhook({ id: 2 }),
+        webhook({ id: 3, topic: 'product.updated', name: 'Product updated' }),
+        webhook({ id: 4, topic: 'coupon.created', delivery_url: 'https://other.example.com' }),
+        webhook({ id: 5, topic: 'customer.created' }),
+      ])
+
+      const { plan } = await client.ensure(desired, {
+        prune: existing => existing.delivery_url === deliveryUrl,
+      })
+
+      expect(plan.delete).toEqual([2, 5])
+      expect(batchBodies).toEqual([{ delete: [2, 5] }])
+    })
+
+    it('should not call the batch endpoint for dry runs or empty plans', async () => {
+      mockStore([webhook({ id: 1, status: 'paused' })])
+
+      const dryRun = await client.ensure(desired, { dryRun: true })
+
+      mockStore([
+        webhook({ id: 1 }),
+        webhook({ id: 2, topic: 'product.updated', name: 'Product updated' }),
+      ])
+      const inSync = await client.ensure(desired)
+
+      expect(dryRun.applied).toBe(false)
+      expect(dryRun.plan.update).toEqual([{ id: 1, status: 'active' }])
+      expect(inSync).toEqual({
+        plan: { create: [], update: [], delete: [], unchanged: [1, 2] },
+        applied: false,
+      })
+      expect(batchBodies).toEqual([])
+    })
+  })
+  describe('findFailedDeliveries', () => {
+    function delivery(id: number, code: string, date: string): WebhookDelivery {
+      return {
+        id,
+        duration: '0.1',
+        summary: '',
+        request_url: deliveryUrl,
+        request_headers: {},
+        request_body: '{}',
+        response_code: code,
+        response_message: '',
+        response_headers: {},
+        response_body: '',
+        date_created: date,
+        date_created_gmt: date,
+      }
+    }
+
+    it('should return non-2xx deliveries in the time window, oldest first', async () => {
+      const requested: string[] = []
+      mockFetchWith(async url => {
+        const path = new URL(String(url)).pathname
+        requested.push(path)
+        if (path.endsWith('/webhooks/1/deliveries')) {
+          return mockFetchResponse([
+            delivery(11, '500', '2024-05-01T12:00:00'),
+            delivery(12, '200', '2024-05-01T12:05:00'),
+            delivery(13, '500', '2024-04-30T12:00:00'),
+          ])
+        }
+        if (path.endsWith('/webhooks/2/deliveries')) {
+          return mockFetchResponse([delivery(21, 'Error', '2024-05-01T11:00:00')])
+        }
+        return mockFetchResponse([webhook({ id: 1 }), webhook({ id: 2 })])
+      })
+
+      const failed = await client.findFailedDeliveries({
+        after: '2024-05-01T00:00:00Z',
+        before: new Date('2024-05-02T00:00:00Z'),
+      })
+
+      expect(failed.map(({ webhook, delivery }) => [webhook.id, delivery.id])).toEqual([
+        [2, 21],
+        [1, 11],
+      ])
+      expect(requested).toContain('/wp-json/wc/v3/webhooks/2/deliveries')
+    })
+  })
+})
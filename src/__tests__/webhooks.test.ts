@@ -0,0 +1,133 @@
+/**
+ * Tests for webhook signature verification and parsing
+ */
+
+import { createHmac } from 'node:crypto'
+import { describe, it, expect } from 'vitest'
+import { computeWebhookSignature, parseWebhookRequest, verifyWebhookSignature } from '../webhooks'
+import { WooCommerceWebhookError } from '../errors'
+import { mockOrder } from './setup'
+
+const secret = 'webhook-secret'
+const body = JSON.stringify({ ...mockOrder, billing: { first_name: 'Zoë' } })
+const signature = createHmac('sha256', secret).update(body).digest('base64')
+
+function deliveryHeaders(overrides: Record<string, string> = {}): Record<string, string> {
+  return {
+    'x-wc-webhook-source': 'https://example.com/',
+    'x-wc-webhook-topic': 'order.created',
+    'x-wc-webhook-resource': 'order',
+    'x-wc-webhook-event': 'created',
+    'x-wc-webhook-signature': signature,
+    'x-wc-webhook-id': '42',
+    'x-wc-webhook-delivery-id': 'abc123',
+    ...overrides,
+  }
+}
+
+describe('Webhooks', () => {
+  describe('verifyWebhookSignature', () => {
+    it('should compute the WooCommerce signature', () => {
+      expect(computeWebhookSignature(body, secret)).toBe(signature)
+      expect(computeWebhookSignature(Buffer.from(body), secret)).toBe(signature)
+    })
+
+    it('should accept a valid signature for string and byte bodies', () => {
+      expect(verifyWebhookSignature(body, signature, secret)).toBe(true)
+      expect(verifyWebhookSignature(Buffer.from(body), signature, secret)).toBe(true)
+      expect(verifyWebhookSignature(new TextEncoder().encode(body), signature, secret)).toBe(true)
+    })
+
+    it('should reject tampered bodies, wrong secrets and missing signatures', () => {
+      expect(verifyWebhookSignature(body.replace('Zoë', 'Zoe'), signature, secret)).toBe(false)
+      expect(verifyWebhookSignature(body, signature, 'other-secret')).toBe(false)
+      expect(verifyWebhookSignature(body, signature.slice(1), secret)).toBe(false)
+      expect(verifyWebhookSignature(body, undefined, secret)).toBe(false)
+      expect(verifyWebhookSignature(body, signature, '')).toBe(false)
+    })
+  })
+
+  describe('parseWebhookRequest', () => {
+    it('should return the payload with delivery metadata', () => {
+      const payload = parseWebhookRequest({ headers: deliveryHeaders(), body }, secret)
+
+      expect(payload).toMatchObject({
+        webhook_id: 42,
+        delivery_id: 'abc123',
+        topic: 'order.created',
+        resource: 'order',
+        event: 'created',
+        source: 'https://example.com/',
+        data: { id: mockOrder.id, billing: { first_name: 'Zoë' } },
+      })
+    })
+
+    it('should narrow deleted payloads to the resource ID', () => {
+      const raw = JSON.stringify({ id: 7 })
+      const headers = deliveryHeaders({
+        'x-wc-webhook-topic': 'product.deleted',
+        'x-wc-webhook-resource': 'product',
+        'x-wc-webhook-event': 'deleted',
+        'x-wc-webhook-signature': computeWebhookSignature(raw, secret),
+      })
+
+      const payload = parseWebhookRequest({ headers, body: raw }, secret)
+
+      expect(payload.topic).toBe('product.deleted')
+      if (payload.topic === 'product.deleted') {
+        expect(payload.data.id).toBe(7)
+      }
+    })
+
+    it('should read Fetch API headers case-insensitively', () => {
+      const headers = new Headers({
+        'X-WC-Webhook-Topic': 'order.created',
+        'X-WC-Webhook-Resource': 'order',
+        'X-WC-Webhook-Event': 'created',
+        'X-WC-Webhook-Signature': signature,
+        'X-WC-Webhook-ID': '42',
+        'X-WC-Webhook-Delivery-ID': 'abc123',
+      })
+
+      const payload = parseWebhookRequest({ headers, body: Buffer.from(body) }, secret)
+
+      expect(payload.webhook_id).toBe(42)
+    })
+
+    it('should reject unsigned requests', () => {
+      const { 'x-wc-webhook-signature': _, ...headers } = deliveryHeaders()
+
+      expect(() => parseWebhookRequest({ headers, body }, secret)).toThrow(
+        expect.objectContaining({ reason: 'missing_signature', statusCode: 401 })
+      )
+    })
+
+    it('should reject tampered requests', () => {
+      expect(() =>
+        parseWebhookRequest(
+          { headers: deliveryHeaders(), body: body.replace('Zoë', 'Zoe') },
+          secret
+        )
+      ).toThrow(WooCommerceWebhookError)
+    })
+
+    it('should reject requests without delivery headers', () => {
+      const { 'x-wc-webhook-topic': _, ...headers } = deliveryHeaders()
+
+      expect(() => parseWebhookRequest({ headers, body }, secret)).toThrow(
+        expect.objectContaining({ reason: 'missing_headers', statusCode: 400 })
+      )
+    })
+
+    it('should reject signed bodies that are not JSON', () => {
+      const raw = 'not json'
+      const headers = deliveryHeaders({
+        'x-wc-webhook-signature': computeWebhookSignature(raw, secret),
+      })
+
+      expect(() => parseWebhookRequest({ headers, body: raw }, secret)).toThrow(
+        expect.objectContaining({ reason: 'invalid_payload', statusCode: 400 })
+      )
+    })
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Product Attribute Terms API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
+import type {
+  WooCommerceAttributeTerm,
+  CreateAttributeTermRequest,
+  UpdateAttributeTermRequest,
+  ListAttributeTermsParams,
+  BatchAttributeTermsRequest,
+  BatchAttributeTermsResponse,
+} from '../types/attributes'
+
+/**
+ * Client for managing the terms of global product attributes
+ */
+export class AttributeTermsClient extends BaseClient {
+  /**
+   * Lists all terms of an attribute
+   *
+   * @param attributeId - Parent attribute ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Array of terms
+   */
+  async list(
+    attributeId: number,
+    params?: ListAttributeTermsParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttributeTerm[]> {
+    return super.get<WooCommerceAttributeTerm[]>(
+      `products/attributes/${attributeId}/terms`,
+      params,
+      options
+    )
+  }
+
+  /**
+   * Lists terms of an attribute with pagination metadata
+   *
+   * @param attributeId - Parent attribute ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of terms with pagination metadata
+   */
+  async listPage(
+    attributeId: number,
+    params?: ListAttributeTermsParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceAttributeTerm>> {
+    return super.getPage<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms`,
+      params,
+      options
+    )
+  }
+
+  /**
+   * Iterates over terms of an attribute, fetching one page at a time
+   *
+   * @param attributeId - Parent attribute ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over terms
+   */
+  iterate(
+    attributeId: number,
+    params?: ListAttributeTermsParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceAttributeTerm, void, undefined> {
+    return super.paginate<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms`,
+      params,
+      options
+    )
+  }
+
+  /**
+   * Retrieves all terms of an attribute with automatic pagination
+   *
+   * @param attributeId - Parent attribute ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all terms
+   */
+  async listAll(
+    attributeId: number,
+    params?: ListAttributeTermsParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceAttributeTerm[]> {
+    return super.collectAll<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms`,
+      params,
+      options
+    )
+  }
+
+  /**
+   * Retrieves a single term
+   *
+   * @param attributeId - Parent attribute ID
+   * @param termId - Term ID
+   * @param options - Per-request options
+   * @returns Term object
+   */
+  async getTerm(
+    attributeId: number,
+    termId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttributeTerm> {
+    return super.get<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms/${termId}`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Creates a new term
+   *
+   * @param attributeId - Parent attribute ID
+   * @param term - Term data
+   * @param options - Per-request options
+   * @returns Created term
+   */
+  async create(
+    attributeId: number,
+    term: CreateAttributeTermRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttributeTerm> {
+    return super.post<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms`,
+      term,
+      options
+    )
+  }
+
+  /**
+   * Updates an existing term
+   *
+   * @param attributeId - Parent attribute ID
+   * @param termId - Term ID
+   * @param updates - Term updates
+   * @param options - Per-request options
+   * @returns Updated term
+   */
+  async update(
+    attributeId: number,
+    termId: number,
+    updates: UpdateAttributeTermRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttributeTerm> {
+    return super.put<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms/${termId}`,
+      updates,
+      options
+    )
+  }
+
+  /**
+   * Deletes a term
+   *
+   * @param attributeId - Parent attribute ID
+   * @param termId - Term ID
+   * @param force - Whether to permanently delete (terms cannot be trashed, so WooCommerce requires true)
+   * @param options - Per-request options
+   * @returns Deleted term
+   */
+  async deleteTerm(
+    attributeId: number,
+    termId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttributeTerm> {
+    return super.delete<WooCommerceAttributeTerm>(
+      `products/attributes/${attributeId}/terms/${termId}`,
+      { force },
+      options
+    )
+  }
+
+  /**
+   * Performs batch operations on terms
+   *
+   * @param attributeId - Parent attribute ID
+   * @param batch - Batch operation data
+   * @param options - Per-request options
+   * @returns Batch operation results
+   */
+  async batch(
+    attributeId: number,
+    batch: BatchAttributeTermsRequest,
+    options?: RequestOptions
+  ): Promise<BatchAttributeTermsResponse> {
+    return super.post<BatchAttributeTermsResponse>(
+      `products/attributes/${attributeId}/terms/batch`,
+      batch,
+      options
+    )
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Product Attributes API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type { RequestOptions } from '../types/common'
+import type {
+  WooCommerceAttribute,
+  CreateAttributeRequest,
+  UpdateAttributeRequest,
+  ListAttributesParams,
+  BatchAttributesRequest,
+  BatchAttributesResponse,
+} from '../types/attributes'
+
+/**
+ * Client for managing global product attributes
+ * Terms of an attribute are managed with `AttributeTermsClient`
+ */
+export class AttributesClient extends BaseClient {
+  /**
+   * Lists all product attributes
+   * The endpoint is not paginated, every attribute is returned in one response
+   *
+   * @param params - Query parameters
+   * @param options - Per-request options
+   * @returns Array of attributes
+   */
+  async list(
+    params?: ListAttributesParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttribute[]> {
+    return super.get<WooCommerceAttribute[]>('products/attributes', params, options)
+  }
+
+  /**
+   * Retrieves a single attribute by ID
+   *
+   * @param attributeId - Attribute ID
+   * @param options - Per-request options
+   * @returns Attribute object
+   */
+  async getAttribute(attributeId: number, options?: RequestOptions): Promise<WooCommerceAttribute> {
+    return super.get<WooCommerceAttribute>(`products/attributes/${attributeId}`, undefined, options)
+  }
+
+  /**
+   * Creates a new attribute
+   *
+   * @param attribute - Attribute data
+   * @param options - Per-request options
+   * @returns Created attribute
+   */
+  async create(
+    attribute: CreateAttributeRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttribute> {
+    return super.post<WooCommerceAttribute>('products/attributes', attribute, options)
+  }
+
+  /**
+   * Updates an existing attribute
+   *
+   * @param attributeId - Attribute ID
+   * @param updates - Attribute updates
+   * @param options - Per-request options
+   * @returns Updated attribute
+   */
+  async update(
+    attributeId: number,
+    updates: UpdateAttributeRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttribute> {
+    return super.put<WooCommerceAttribute>(`products/attributes/${attributeId}`, updates, options)
+  }
+
+  /**
+   * Deletes an attribute along with its terms
+   *
+   * @param attributeId - Attribute ID
+   * @param force - Whether to permanently delete (attributes cannot be trashed, so WooCommerce requires true)
+   * @param options - Per-request options
+   * @returns Deleted attribute
+   */
+  async deleteAttribute(
+    attributeId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceAttribute> {
+    return super.delete<WooCommerceAttribute>(
+      `products/attributes/${attributeId}`,
+      { force },
+      options
+    )
+  }
+
+  /**
+   * Performs batch operations on attributes
+   *
+   * @param batch - Batch operation data
+   * @param options - Per-request options
+   * @returns Batch operation results
+   */
+  async batch(
+    batch: BatchAttributesRequest,
+    options?: RequestOptions
+  ): Promise<BatchAttributesResponse> {
+    return super.post<BatchAttributesResponse>('products/attributes/batch', batch, options)
+  }
+}
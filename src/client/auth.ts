@@ -0,0 +1,111 @@
+/**
+ * Authentication strategies for WooCommerce API requests
+ */
+
+import crypto from 'crypto-js'
+import type { WooCommerceConfig } from '../types/common'
+import type { AuthRequest, AuthStrategy } from '../types/auth'
+import { WooCommerceAuthenticationError } from '../errors'
+import {
+  appendOAuthParams,
+  indexArrayParams,
+  signOAuthRequest,
+  toAuthorizationHeader,
+} from './oauth'
+
+/**
+ * Resolves the authentication strategy of the client configuration
+ * Without an explicit `auth` option, query string auth is used for HTTPS
+ * and OAuth 1.0a signing for HTTP (or as set by `queryStringAuth`)
+ *
+ * @param config - Client configuration
+ * @param baseUrl - Normalized store URL
+ * @returns Authentication strategy
+ */
+export function resolveAuthStrategy(config: WooCommerceConfig, baseUrl: string): AuthStrategy {
+  if (config.auth) {
+    return config.auth
+  }
+
+  const { consumerKey, consumerSecret } = config
+  if (!consumerKey || !consumerSecret) {
+    throw new WooCommerceAuthenticationError(
+      'Either consumerKey and consumerSecret or an auth strategy must be configured'
+    )
+  }
+
+  if (config.queryStringAuth ?? baseUrl.startsWith('https://')) {
+    return { type: 'query', consumerKey, consumerSecret }
+  }
+
+  return { type: 'oauth1', consumerKey, consumerSecret, ...config.oauth }
+}
+
+/**
+ * Encodes credentials for an HTTP Basic `Authorization` header
+ *
+ * @param username - Username or consumer key
+ * @param password - Password or consumer secret
+ * @returns Header value
+ */
+function basicAuthorization(username: string, password: string): string {
+  return `Basic ${crypto.enc.Base64.stringify(crypto.enc.Utf8.parse(`${username}:${password}`))}`
+}
+
+/**
+ * Applies an authentication strategy to a request
+ *
+ * @param strategy - Authentication strategy
+ * @param request - Request to authenticate (headers are updated in place)
+ * @returns Authenticated request URL
+ */
+export async function applyAuth(strategy: AuthStrategy, request: AuthRequest): Promise<string> {
+  switch (strategy.type) {
+    case 'query': {
+      const separator = request.url.includes('?') ? '&' : '?'
+      return `${request.url}${separator}consumer_key=${encodeURIComponent(
+        strategy.consumerKey
+      )}&consumer_secret=${encodeURIComponent(strategy.consumerSecret)}`
+    }
+
+    case 'oauth1': {
+      // Query parameters are part of the signature
+      const url = indexArrayParams(request.url)
+      const oauthParams = signOAuthRequest({
+        method: request.method,
+        url,
+        consumerKey: strategy.consumerKey,
+        consumerSecret: strategy.consumerSecret,
+        signatureMethod: strategy.signatureMethod,
+      })
+
+      if (strategy.placement === 'query') {
+        return appendOAuthParams(url, oauthParams)
+      }
+
+      request.headers.Authorization = toAuthorizationHeader(oauthParams)
+      return url
+    }
+
+    case 'basic':
+      request.headers.Authorization = basicAuthorization(
+        strategy.consumerKey,
+        strategy.consumerSecret
+      )
+      return request.url
+
+    case 'application-password':
+      request.headers.Authorization = basicAuthorization(strategy.username, strategy.password)
+      return request.url
+
+    case 'bearer': {
+      const token = typeof strategy.token === 'function' ? await strategy.token() : strategy.token
+      request.headers.Authorization = `Bearer ${token}`
+      return request.url
+    }
+
+    case 'custom':
+      await strategy.sign(request)
+      return request.url
+  }
+}
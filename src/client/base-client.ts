@@ -1,12 +1,20 @@
 /**
  * Base client for WooCommerce REST API
  *
- * Provides HTTP request methods with OAuth 1.0a authentication
+ * Provides authenticated HTTP request methods
  */
 
-import OAuth from 'oauth-1.0a'
-import crypto from 'crypto-js'
-import type { WooCommerceConfig, WooCommerceErrorResponse } from '../types/common'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommerceConfig,
+  WooCommerceErrorResponse,
+  WooCommercePaginatedResponse,
+} from '../types/common'
+import type { AuthStrategy } from '../types/auth'
+import type { RequestContext, WooCommerceMiddleware } from '../types/middleware'
+import type { WooCommerceTransport } from '../types/transport'
 import {
   WooCommerceError,
   WooCommerceAuthenticationError,
@@ -17,7 +25,32 @@ import {
   WooCommerceNetworkError,
   WooCommerceAPIError,
 } from '../errors'
-import { buildQueryString, normalizeUrl } from '../utils'
+import {
+  buildQueryString,
+  mapWithConcurrency,
+  normalizeUrl,
+  parseLinkHeader,
+  parsePaginationHeaders,
+  parseRetryAfter,
+  sleep,
+} from '../utils'
+import { resolveRetryPolicy, shouldRetry, getRetryDelay, type ResolvedRetryPolicy } from './retry'
+import { RateLimiter } from './rate-limiter'
+import { createFetchTransport } from './transport'
+import { applyAuth, resolveAuthStrategy } from './auth'
+
+/**
+ * Parsed API response with its headers
+ */
+interface ApiResponse<T> {
+  data: T
+  headers: Headers
+}
+
+/**
+ * Query parameters that carry credentials and must never be exposed in returned URLs
+ */
+const AUTH_QUERY_PARAMS = /^(consumer_key|consumer_secret|oauth_[a-z_]+)$/
 
 /**
  * Base client for making authenticated requests to WooCommerce API
@@ -27,126 +60,258 @@ export class BaseClient {
   protected version: string
   protected timeout: number
   protected queryStringAuth: boolean
-  private consumerKey: string
-  private consumerSecret: string
-  private oauth: OAuth | null = null
+  protected retryPolicy: ResolvedRetryPolicy
+  protected rateLimiter: RateLimiter | null
+  protected middleware: WooCommerceMiddleware[]
+  protected transport: WooCommerceTransport
+  private auth: AuthStrategy
 
   constructor(config: WooCommerceConfig) {
     this.baseUrl = normalizeUrl(config.url)
-    this.consumerKey = config.consumerKey
-    this.consumerSecret = config.consumerSecret
     this.version = config.version || 'wc/v3'
     this.timeout = config.timeout || 30000
-    this.queryStringAuth = config.queryStringAuth ?? this.baseUrl.startsWith('https://')
-
-    // Initialize OAuth 1.0a for HTTP connections
-    if (!this.queryStringAuth) {
-      this.oauth = new OAuth({
-        consumer: {
-          key: this.consumerKey,
-          secret: this.consumerSecret,
-        },
-        signature_method: 'HMAC-SHA256',
-        hash_function: (baseString, key) => {
-          return crypto.HmacSHA256(baseString, key).toString(crypto.enc.Base64)
-        },
-      })
-    }
+    this.auth = resolveAuthStrategy(config, this.baseUrl)
+    this.queryStringAuth = this.auth.type === 'query'
+    this.retryPolicy = resolveRetryPolicy(config.retry)
+    this.rateLimiter =
+      config.rateLimit instanceof RateLimiter
+        ? config.rateLimit
+        : config.rateLimit
+        ? new RateLimiter(config.rateLimit)
+        : null
+    this.middleware = config.middleware ?? []
+    this.transport = config.transport ?? createFetchTransport(config.fetch, config.fetchOptions)
   }
 
   /**
    * Makes an authenticated HTTP request to the WooCommerce API
+   * Transient failures are retried according to the configured retry policy
    *
    * @param endpoint - API endpoint (without base URL)
-   * @param options - Fetch request options
+   * @param init - Fetch request options
+   * @param options - Per-request options
    * @returns Parsed response data
    */
-  protected async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.baseUrl}/wp-json/${this.version}/${endpoint}`
-    const method = (options.method || 'GET').toUpperCase()
-
-    // Build request URL with authentication
-    let requestUrl = url
-    const requestData: OAuth.RequestOptions = {
-      url,
-      method,
+  protected async request<T>(
+    endpoint: string,
+    init: RequestInit = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const response = await this.requestWithHeaders<T>(endpoint, init, options)
+    return response.data
+  }
+
+  /**
+   * Makes an authenticated HTTP request and returns the response headers along with the data
+   *
+   * @param endpoint - API endpoint (without base URL)
+   * @param init - Fetch request options
+   * @param options - Per-request options
+   * @returns Parsed response data and headers
+   */
+  protected async requestWithHeaders<T>(
+    endpoint: string,
+    init: RequestInit = {},
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    const method = (init.method || 'GET').toUpperCase()
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.executeRequest<T>(endpoint, init, options, attempt)
+      } catch (error) {
+        if (options.signal?.aborted || !shouldRetry(this.retryPolicy, error, method, attempt)) {
+          throw error
+        }
+
+        const delay = getRetryDelay(this.retryPolicy, error, attempt)
+        this.retryPolicy.onRetry?.(error, attempt, delay)
+
+        try {
+          await sleep(delay, options.signal)
+        } catch (abortReason) {
+          throw new WooCommerceNetworkError(
+            'Request aborted',
+            abortReason instanceof Error ? abortReason : undefined
+          )
+        }
+      }
     }
+  }
 
-    if (this.queryStringAuth) {
-      // Query string auth for HTTPS
-      const separator = url.includes('?') ? '&' : '?'
-      requestUrl = `${url}${separator}consumer_key=${encodeURIComponent(
-        this.consumerKey
-      )}&consumer_secret=${encodeURIComponent(this.consumerSecret)}`
-    } else if (this.oauth) {
-      // OAuth 1.0a signature for HTTP
-      const authHeader = this.oauth.toHeader(this.oauth.authorize(requestData))
-      options.headers = {
+  /**
+   * Performs a single request attempt through the middleware chain
+   *
+   * @param endpoint - API endpoint (without base URL)
+   * @param init - Fetch request options
+   * @param options - Per-request options
+   * @param attempt - One-based attempt number
+   * @returns Parsed response data and headers
+   */
+  private async executeRequest<T>(
+    endpoint: string,
+    init: RequestInit,
+    options: RequestOptions,
+    attempt: number
+  ): Promise<ApiResponse<T>> {
+    const context: RequestContext = {
+      endpoint,
+      url: `${this.baseUrl}/wp-json/${this.version}/${endpoint}`,
+      method: (init.method || 'GET').toUpperCase(),
+      // Set default headers
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        'User-Agent': 'WooCommerce-SDK/1.0',
+        ...(init.headers as Record<string, string>),
         ...options.headers,
-        Authorization: authHeader.Authorization,
-      }
+      },
+      body: init.body,
+      attempt,
+      metadata: {},
     }
 
-    // Set default headers
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-      'User-Agent': 'WooCommerce-SDK/1.0',
-      ...(options.headers as Record<string, string>),
+    if (options.signal?.aborted) {
+      throw new WooCommerceNetworkError('Request aborted')
     }
 
-    // Create abort controller for timeout
+    // Create abort controller for timeout, linked to the caller's signal
+    // The timeout starts once the request is sent, time spent queued in the rate limiter
+    // only counts against the caller's signal
     const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout)
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const onAbort = () => controller.abort()
+    options.signal?.addEventListener('abort', onAbort, { once: true })
 
     try {
-      const response = await fetch(requestUrl, {
-        ...options,
-        headers,
-        signal: controller.signal,
-      })
+      let response: Response | undefined
 
-      clearTimeout(timeoutId)
+      for (const middleware of this.middleware) {
+        const shortCircuit = await middleware.onRequest?.(context)
+        if (shortCircuit) {
+          response = shortCircuit
+          break
+        }
+      }
+
+      if (!response) {
+        const requestUrl = await this.authenticate(context)
+        const send = () => {
+          // Authentication and rate limiting may wait, the request may be aborted meanwhile
+          controller.signal.throwIfAborted()
+          timeoutId = setTimeout(() => controller.abort(), options.timeout ?? this.timeout)
+          return this.transport.send({
+            url: requestUrl,
+            method: context.method,
+            headers: context.headers,
+            body: context.body,
+            signal: controller.signal,
+          })
+        }
 
-      // Handle non-2xx responses
-      if (!response.ok) {
-        await this.handleErrorResponse(response)
+        response = this.rateLimiter
+          ? await this.rateLimiter.schedule(send, controller.signal)
+          : await send()
+
+        if (response.status === 429) {
+          this.rateLimiter?.recordRateLimit(parseRetryAfter(response.headers.get('retry-after')))
+        }
       }
 
-      // Handle 204 No Content
-      if (response.status === 204) {
-        return {} as T
+      for (const middleware of this.middleware) {
+        response = (await middleware.onResponse?.(response, context)) || response
       }
 
-      // Parse JSON response
-      const data = await response.json()
-      return data as T
+      clearTimeout(timeoutId)
+      options.signal?.removeEventListener('abort', onAbort)
+
+      return await this.parseResponse<T>(response)
     } catch (error) {
       clearTimeout(timeoutId)
+      options.signal?.removeEventListener('abort', onAbort)
 
-      // Handle network errors
-      if (error instanceof Error) {
-        const normalizedMessage = error.message.toLowerCase()
-        if (error.name === 'AbortError') {
-          throw new WooCommerceNetworkError('Request timeout', error)
-        }
-        if (
-          normalizedMessage.includes('fetch') ||
-          normalizedMessage.includes('network') ||
-          normalizedMessage.includes('econnrefused')
-        ) {
-          throw new WooCommerceNetworkError('Network request failed', error)
+      const sdkError =
+        options.signal?.aborted && error instanceof Error && error.name === 'AbortError'
+          ? new WooCommerceNetworkError('Request aborted', error)
+          : this.toSdkError(error)
+
+      for (const middleware of this.middleware) {
+        const recovered = await middleware.onError?.(sdkError, context)
+        if (recovered) {
+          return this.parseResponse<T>(recovered)
         }
       }
 
-      // Re-throw if already a WooCommerce error
-      if (error instanceof WooCommerceError) {
-        throw error
+      throw sdkError
+    }
+  }
+
+  /**
+   * Applies the configured authentication strategy to the request
+   *
+   * @param context - Request context (headers are updated in place)
+   * @returns Authenticated request URL
+   */
+  private authenticate(context: RequestContext): Promise<string> {
+    return applyAuth(this.auth, {
+      url: context.url,
+      method: context.method,
+      headers: context.headers,
+      body: context.body,
+    })
+  }
+
+  /**
+   * Maps a response to its parsed data, throwing typed errors for non-2xx statuses
+   *
+   * @param response - Fetch response object
+   * @returns Parsed response data and headers
+   */
+  private async parseResponse<T>(response: Response): Promise<ApiResponse<T>> {
+    // Handle non-2xx responses
+    if (!response.ok) {
+      await this.handleErrorResponse(response)
+    }
+
+    // Handle 204 No Content
+    if (response.status === 204) {
+      return { data: {} as T, headers: response.headers }
+    }
+
+    // Parse JSON response
+    const data = await response.json()
+    return { data: data as T, headers: response.headers }
+  }
+
+  /**
+   * Converts any thrown value into a typed SDK error
+   *
+   * @param error - Thrown value
+   * @returns WooCommerce error
+   */
+  private toSdkError(error: unknown): WooCommerceError {
+    // Handle network errors
+    if (error instanceof Error) {
+      const normalizedMessage = error.message.toLowerCase()
+      if (error.name === 'AbortError') {
+        return new WooCommerceNetworkError('Request timeout', error)
+      }
+      if (
+        normalizedMessage.includes('fetch') ||
+        normalizedMessage.includes('network') ||
+        normalizedMessage.includes('econnrefused')
+      ) {
+        return new WooCommerceNetworkError('Network request failed', error)
       }
+    }
 
-      // Generic error
-      throw new WooCommerceError(error instanceof Error ? error.message : 'Unknown error occurred')
+    // Already a WooCommerce error
+    if (error instanceof WooCommerceError) {
+      return error
     }
+
+    // Generic error
+    return new WooCommerceError(error instanceof Error ? error.message : 'Unknown error occurred')
   }
 
   /**
@@ -185,11 +350,10 @@ export class BaseClient {
         )
 
       case 429: {
-        const retryAfter = response.headers.get('retry-after')
         throw new WooCommerceRateLimitError(
           message,
           errorData,
-          retryAfter ? parseInt(retryAfter, 10) : undefined
+          parseRetryAfter(response.headers.get('retry-after'))
         )
       }
 
@@ -206,17 +370,190 @@ export class BaseClient {
    *
    * @param endpoint - API endpoint
    * @param params - Query parameters
+   * @param options - Per-request options
    * @returns Parsed response data
    */
-  protected async get<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
-    let url = endpoint
+  protected async get<T>(
+    endpoint: string,
+    params?: Record<string, any>,
+    options?: RequestOptions
+  ): Promise<T> {
+    const url = this.withQuery(endpoint, { ...params, ...options?.query })
+    return this.request<T>(url, { method: 'GET' }, options)
+  }
 
-    if (params && Object.keys(params).length > 0) {
-      const queryString = buildQueryString(params)
-      url = `${endpoint}${endpoint.includes('?') ? '&' : '?'}${queryString}`
+  /**
+   * Makes a GET request for a page of a collection, including pagination metadata
+   *
+   * @param endpoint - API endpoint
+   * @param params - Query parameters
+   * @param options - Per-request options
+   * @returns Page of items with totals and navigation links
+   */
+  protected async getPage<T>(
+    endpoint: string,
+    params?: Record<string, any>,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<T>> {
+    // Query overrides also apply to the reported page and page size
+    const merged: Record<string, any> = { ...params, ...options?.query }
+    const url = this.withQuery(endpoint, merged)
+    const { data, headers } = await this.requestWithHeaders<T[]>(url, { method: 'GET' }, options)
+    const { total, totalPages } = parsePaginationHeaders(headers)
+    const links = parseLinkHeader(headers.get('link'))
+
+    for (const rel of Object.keys(links) as Array<keyof typeof links>) {
+      links[rel] = this.stripAuthParams(links[rel]!)
     }
 
-    return this.request<T>(url, { method: 'GET' })
+    return {
+      data,
+      total,
+      totalPages,
+      page: Number(merged.page ?? 1),
+      perPage: Number(merged.per_page ?? 10),
+      links,
+    }
+  }
+
+  /**
+   * Iterates over every item of a collection, fetching one page at a time
+   * Stops at the last page reported by `X-WP-TotalPages`, or at the first short page
+   * when the header is missing
+   *
+   * @param endpoint - API endpoint
+   * @param params - Query parameters (`per_page` defaults to 100)
+   * @param options - Iteration and per-request options
+   * @returns Async iterator over the collection items
+   */
+  protected async *paginate<T>(
+    endpoint: string,
+    params: Record<string, any> = {},
+    options: IterateOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    // Query overrides apply to the page parameters, not on top of them
+    const { query, maxItems = Infinity, ...requestOptions } = options
+    params = { ...params, ...query }
+    const perPage: number = params.per_page ?? 100
+    let page: number = params.page ?? 1
+    let yielded = 0
+
+    while (yielded < maxItems) {
+      const result = await this.getPage<T>(
+        endpoint,
+        { ...params, page, per_page: perPage },
+        requestOptions
+      )
+
+      for (const item of result.data) {
+        yield item
+        if (++yielded >= maxItems) return
+      }
+
+      const isLastPage = result.totalPages > 0 && page >= result.totalPages
+      if (isLastPage || result.data.length < perPage) return
+
+      page++
+    }
+  }
+
+  /**
+   * Retrieves every item of a collection
+   * With a concurrency above 1, the first page is fetched to read `X-WP-TotalPages`
+   * and the remaining pages are fetched in parallel, preserving their order
+   *
+   * @param endpoint - API endpoint
+   * @param params - Query parameters (`per_page` defaults to 100)
+   * @param options - Concurrency and per-request options
+   * @returns Array of all items
+   */
+  protected async collectAll<T>(
+    endpoint: string,
+    params: Record<string, any> = {},
+    options: ListAllOptions = {}
+  ): Promise<T[]> {
+    const { query, concurrency = 1, ...requestOptions } = options
+    params = { ...params, ...query }
+    const perPage: number = params.per_page ?? 100
+    const firstPage: number = params.page ?? 1
+    const items: T[] = []
+
+    if (concurrency <= 1) {
+      for await (const item of this.paginate<T>(endpoint, params, requestOptions)) {
+        items.push(item)
+      }
+      return items
+    }
+
+    const first = await this.getPage<T>(
+      endpoint,
+      { ...params, page: firstPage, per_page: perPage },
+      requestOptions
+    )
+    items.push(...first.data)
+
+    if (first.data.length < perPage) {
+      return items
+    }
+
+    if (first.totalPages === 0) {
+      // Without X-WP-TotalPages the page count is unknown, continue sequentially
+      const rest = this.paginate<T>(endpoint, { ...params, page: firstPage + 1 }, requestOptions)
+      for await (const item of rest) {
+        items.push(item)
+      }
+      return items
+    }
+
+    const remainingPages = Array.from(
+      { length: Math.max(0, first.totalPages - firstPage) },
+      (_, i) => firstPage + i + 1
+    )
+    const pages = await mapWithConcurrency(remainingPages, concurrency, page =>
+      this.getPage<T>(endpoint, { ...params, page, per_page: perPage }, requestOptions)
+    )
+
+    for (const page of pages) {
+      items.push(...page.data)
+    }
+
+    return items
+  }
+
+  /**
+   * Appends query parameters to an endpoint
+   *
+   * @param endpoint - API endpoint
+   * @param params - Query parameters
+   * @returns Endpoint with query string
+   */
+  private withQuery(endpoint: string, params?: Record<string, any>): string {
+    if (!params || Object.keys(params).length === 0) {
+      return endpoint
+    }
+
+    const queryString = buildQueryString(params)
+    return queryString ? `${endpoint}${endpoint.includes('?') ? '&' : '?'}${queryString}` : endpoint
+  }
+
+  /**
+   * Removes credential query parameters from a URL returned by the API
+   *
+   * @param url - URL to sanitize
+   * @returns URL without authentication parameters
+   */
+  private stripAuthParams(url: string): string {
+    try {
+      const parsed = new URL(url)
+      for (const key of [...parsed.searchParams.keys()]) {
+        if (AUTH_QUERY_PARAMS.test(key)) {
+          parsed.searchParams.delete(key)
+        }
+      }
+      return parsed.toString()
+    } catch {
+      return url
+    }
   }
 
   /**
@@ -224,13 +561,18 @@ export class BaseClient {
    *
    * @param endpoint - API endpoint
    * @param body - Request body
+   * @param options - Per-request options
    * @returns Parsed response data
    */
-  protected async post<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'POST',
-      body: body ? JSON.stringify(body) : undefined,
-    })
+  protected async post<T>(endpoint: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>(
+      this.withQuery(endpoint, options?.query),
+      {
+        method: 'POST',
+        body: body ? JSON.stringify(body) : undefined,
+      },
+      options
+    )
   }
 
   /**
@@ -238,13 +580,18 @@ export class BaseClient {
    *
    * @param endpoint - API endpoint
    * @param body - Request body
+   * @param options - Per-request options
    * @returns Parsed response data
    */
-  protected async put<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      body: body ? JSON.stringify(body) : undefined,
-    })
+  protected async put<T>(endpoint: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>(
+      this.withQuery(endpoint, options?.query),
+      {
+        method: 'PUT',
+        body: body ? JSON.stringify(body) : undefined,
+      },
+      options
+    )
   }
 
   /**
@@ -252,17 +599,16 @@ export class BaseClient {
    *
    * @param endpoint - API endpoint
    * @param params - Query parameters (e.g., { force: true })
+   * @param options - Per-request options
    * @returns Parsed response data
    */
-  protected async delete<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
-    let url = endpoint
-
-    if (params && Object.keys(params).length > 0) {
-      const queryString = buildQueryString(params)
-      url = `${endpoint}${endpoint.includes('?') ? '&' : '?'}${queryString}`
-    }
-
-    return this.request<T>(url, { method: 'DELETE' })
+  protected async delete<T>(
+    endpoint: string,
+    params?: Record<string, any>,
+    options?: RequestOptions
+  ): Promise<T> {
+    const url = this.withQuery(endpoint, { ...params, ...options?.query })
+    return this.request<T>(url, { method: 'DELETE' }, options)
   }
 
   /**
@@ -270,12 +616,17 @@ export class BaseClient {
    *
    * @param endpoint - API endpoint
    * @param body - Request body
+   * @param options - Per-request options
    * @returns Parsed response data
    */
-  protected async patch<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'POST', // WooCommerce uses POST for batch operations
-      body: body ? JSON.stringify(body) : undefined,
-    })
+  protected async patch<T>(endpoint: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>(
+      this.withQuery(endpoint, options?.query),
+      {
+        method: 'POST', // WooCommerce uses POST for batch operations
+        body: body ? JSON.stringify(body) : undefined,
+      },
+      options
+    )
   }
 }
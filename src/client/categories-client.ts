@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceCategory,
   CreateCategoryRequest,
@@ -20,30 +26,81 @@ export class CategoriesClient extends BaseClient {
    * Lists all product categories
    *
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of categories
    */
-  async list(params?: ListCategoriesParams): Promise<WooCommerceCategory[]> {
-    return super.get<WooCommerceCategory[]>('products/categories', params)
+  async list(
+    params?: ListCategoriesParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceCategory[]> {
+    return super.get<WooCommerceCategory[]>('products/categories', params, options)
+  }
+
+  /**
+   * Lists product categories with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of categories with pagination metadata
+   */
+  async listPage(
+    params?: ListCategoriesParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceCategory>> {
+    return super.getPage<WooCommerceCategory>('products/categories', params, options)
+  }
+
+  /**
+   * Iterates over product categories, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over categories
+   */
+  iterate(
+    params?: ListCategoriesParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceCategory, void, undefined> {
+    return super.paginate<WooCommerceCategory>('products/categories', params, options)
+  }
+
+  /**
+   * Retrieves all product categories with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all categories
+   */
+  async listAll(
+    params?: ListCategoriesParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceCategory[]> {
+    return super.collectAll<WooCommerceCategory>('products/categories', params, options)
   }
 
   /**
    * Retrieves a single category by ID
    *
    * @param categoryId - Category ID
+   * @param options - Per-request options
    * @returns Category object
    */
-  async getCategory(categoryId: number): Promise<WooCommerceCategory> {
-    return super.get<WooCommerceCategory>(`products/categories/${categoryId}`)
+  async getCategory(categoryId: number, options?: RequestOptions): Promise<WooCommerceCategory> {
+    return super.get<WooCommerceCategory>(`products/categories/${categoryId}`, undefined, options)
   }
 
   /**
    * Creates a new category
    *
    * @param category - Category data
+   * @param options - Per-request options
    * @returns Created category
    */
-  async create(category: CreateCategoryRequest): Promise<WooCommerceCategory> {
-    return super.post<WooCommerceCategory>('products/categories', category)
+  async create(
+    category: CreateCategoryRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceCategory> {
+    return super.post<WooCommerceCategory>('products/categories', category, options)
   }
 
   /**
@@ -51,10 +108,15 @@ export class CategoriesClient extends BaseClient {
    *
    * @param categoryId - Category ID
    * @param updates - Category updates
+   * @param options - Per-request options
    * @returns Updated category
    */
-  async update(categoryId: number, updates: UpdateCategoryRequest): Promise<WooCommerceCategory> {
-    return super.put<WooCommerceCategory>(`products/categories/${categoryId}`, updates)
+  async update(
+    categoryId: number,
+    updates: UpdateCategoryRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceCategory> {
+    return super.put<WooCommerceCategory>(`products/categories/${categoryId}`, updates, options)
   }
 
   /**
@@ -62,19 +124,32 @@ export class CategoriesClient extends BaseClient {
    *
    * @param categoryId - Category ID
    * @param force - Whether to permanently delete
+   * @param options - Per-request options
    * @returns Deleted category
    */
-  async deleteCategory(categoryId: number, force: boolean = false): Promise<WooCommerceCategory> {
-    return super.delete<WooCommerceCategory>(`products/categories/${categoryId}`, { force })
+  async deleteCategory(
+    categoryId: number,
+    force: boolean = false,
+    options?: RequestOptions
+  ): Promise<WooCommerceCategory> {
+    return super.delete<WooCommerceCategory>(
+      `products/categories/${categoryId}`,
+      { force },
+      options
+    )
   }
 
   /**
    * Performs batch operations on categories
    *
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(batch: BatchCategoriesRequest): Promise<BatchCategoriesResponse> {
-    return super.post<BatchCategoriesResponse>('products/categories/batch', batch)
+  async batch(
+    batch: BatchCategoriesRequest,
+    options?: RequestOptions
+  ): Promise<BatchCategoriesResponse> {
+    return super.post<BatchCategoriesResponse>('products/categories/batch', batch, options)
   }
 }
@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceCoupon,
   CreateCouponRequest,
@@ -20,30 +26,75 @@ export class CouponsClient extends BaseClient {
    * Lists all coupons
    *
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of coupons
    */
-  async list(params?: ListCouponsParams): Promise<WooCommerceCoupon[]> {
-    return super.get<WooCommerceCoupon[]>('coupons', params)
+  async list(params?: ListCouponsParams, options?: RequestOptions): Promise<WooCommerceCoupon[]> {
+    return super.get<WooCommerceCoupon[]>('coupons', params, options)
+  }
+
+  /**
+   * Lists coupons with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of coupons with pagination metadata
+   */
+  async listPage(
+    params?: ListCouponsParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceCoupon>> {
+    return super.getPage<WooCommerceCoupon>('coupons', params, options)
+  }
+
+  /**
+   * Iterates over coupons, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over coupons
+   */
+  iterate(
+    params?: ListCouponsParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceCoupon, void, undefined> {
+    return super.paginate<WooCommerceCoupon>('coupons', params, options)
+  }
+
+  /**
+   * Retrieves all coupons with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all coupons
+   */
+  async listAll(
+    params?: ListCouponsParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceCoupon[]> {
+    return super.collectAll<WooCommerceCoupon>('coupons', params, options)
   }
 
   /**
    * Retrieves a single coupon by ID
    *
    * @param couponId - Coupon ID
+   * @param options - Per-request options
    * @returns Coupon object
    */
-  async getCoupon(couponId: number): Promise<WooCommerceCoupon> {
-    return super.get<WooCommerceCoupon>(`coupons/${couponId}`)
+  async getCoupon(couponId: number, options?: RequestOptions): Promise<WooCommerceCoupon> {
+    return super.get<WooCommerceCoupon>(`coupons/${couponId}`, undefined, options)
   }
 
   /**
    * Creates a new coupon
    *
    * @param coupon - Coupon data
+   * @param options - Per-request options
    * @returns Created coupon
    */
-  async create(coupon: CreateCouponRequest): Promise<WooCommerceCoupon> {
-    return super.post<WooCommerceCoupon>('coupons', coupon)
+  async create(coupon: CreateCouponRequest, options?: RequestOptions): Promise<WooCommerceCoupon> {
+    return super.post<WooCommerceCoupon>('coupons', coupon, options)
   }
 
   /**
@@ -51,10 +102,15 @@ export class CouponsClient extends BaseClient {
    *
    * @param couponId - Coupon ID
    * @param updates - Coupon updates
+   * @param options - Per-request options
    * @returns Updated coupon
    */
-  async update(couponId: number, updates: UpdateCouponRequest): Promise<WooCommerceCoupon> {
-    return super.put<WooCommerceCoupon>(`coupons/${couponId}`, updates)
+  async update(
+    couponId: number,
+    updates: UpdateCouponRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceCoupon> {
+    return super.put<WooCommerceCoupon>(`coupons/${couponId}`, updates, options)
   }
 
   /**
@@ -62,30 +118,37 @@ export class CouponsClient extends BaseClient {
    *
    * @param couponId - Coupon ID
    * @param force - Whether to permanently delete (true) or move to trash (false)
+   * @param options - Per-request options
    * @returns Deleted coupon
    */
-  async deleteCoupon(couponId: number, force: boolean = false): Promise<WooCommerceCoupon> {
-    return super.delete<WooCommerceCoupon>(`coupons/${couponId}`, { force })
+  async deleteCoupon(
+    couponId: number,
+    force: boolean = false,
+    options?: RequestOptions
+  ): Promise<WooCommerceCoupon> {
+    return super.delete<WooCommerceCoupon>(`coupons/${couponId}`, { force }, options)
   }
 
   /**
    * Performs batch operations on coupons
    *
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(batch: BatchCouponsRequest): Promise<BatchCouponsResponse> {
-    return super.post<BatchCouponsResponse>('coupons/batch', batch)
+  async batch(batch: BatchCouponsRequest, options?: RequestOptions): Promise<BatchCouponsResponse> {
+    return super.post<BatchCouponsResponse>('coupons/batch', batch, options)
   }
 
   /**
    * Helper: Finds a coupon by code
    *
    * @param code - Coupon code
+   * @param options - Per-request options
    * @returns Coupon object or null if not found
    */
-  async findByCode(code: string): Promise<WooCommerceCoupon | null> {
-    const coupons = await this.list({ code, per_page: 1 })
+  async findByCode(code: string, options?: RequestOptions): Promise<WooCommerceCoupon | null> {
+    const coupons = await this.list({ code, per_page: 1 }, options)
     return coupons[0] ?? null
   }
 }
@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceCustomer,
   CreateCustomerRequest,
@@ -21,30 +27,81 @@ export class CustomersClient extends BaseClient {
    * Lists all customers
    *
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of customers
    */
-  async list(params?: ListCustomersParams): Promise<WooCommerceCustomer[]> {
-    return super.get<WooCommerceCustomer[]>('customers', params)
+  async list(
+    params?: ListCustomersParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceCustomer[]> {
+    return super.get<WooCommerceCustomer[]>('customers', params, options)
+  }
+
+  /**
+   * Lists customers with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of customers with pagination metadata
+   */
+  async listPage(
+    params?: ListCustomersParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceCustomer>> {
+    return super.getPage<WooCommerceCustomer>('customers', params, options)
+  }
+
+  /**
+   * Iterates over customers, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over customers
+   */
+  iterate(
+    params?: ListCustomersParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceCustomer, void, undefined> {
+    return super.paginate<WooCommerceCustomer>('customers', params, options)
+  }
+
+  /**
+   * Retrieves all customers with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all customers
+   */
+  async listAll(
+    params?: ListCustomersParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceCustomer[]> {
+    return super.collectAll<WooCommerceCustomer>('customers', params, options)
   }
 
   /**
    * Retrieves a single customer by ID
    *
    * @param customerId - Customer ID
+   * @param options - Per-request options
    * @returns Customer object
    */
-  async getCustomer(customerId: number): Promise<WooCommerceCustomer> {
-    return super.get<WooCommerceCustomer>(`customers/${customerId}`)
+  async getCustomer(customerId: number, options?: RequestOptions): Promise<WooCommerceCustomer> {
+    return super.get<WooCommerceCustomer>(`customers/${customerId}`, undefined, options)
   }
 
   /**
    * Creates a new customer
    *
    * @param customer - Customer data
+   * @param options - Per-request options
    * @returns Created customer
    */
-  async create(customer: CreateCustomerRequest): Promise<WooCommerceCustomer> {
-    return super.post<WooCommerceCustomer>('customers', customer)
+  async create(
+    customer: CreateCustomerRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceCustomer> {
+    return super.post<WooCommerceCustomer>('customers', customer, options)
   }
 
   /**
@@ -52,10 +109,15 @@ export class CustomersClient extends BaseClient {
    *
    * @param customerId - Customer ID
    * @param updates - Customer updates
+   * @param options - Per-request options
    * @returns Updated customer
    */
-  async update(customerId: number, updates: UpdateCustomerRequest): Promise<WooCommerceCustomer> {
-    return super.put<WooCommerceCustomer>(`customers/${customerId}`, updates)
+  async update(
+    customerId: number,
+    updates: UpdateCustomerRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceCustomer> {
+    return super.put<WooCommerceCustomer>(`customers/${customerId}`, updates, options)
   }
 
   /**
@@ -64,48 +126,56 @@ export class CustomersClient extends BaseClient {
    * @param customerId - Customer ID
    * @param force - Whether to permanently delete (true) or reassign (false)
    * @param reassign - User ID to reassign customer's orders to (required if force=false)
+   * @param options - Per-request options
    * @returns Deleted customer
    */
   async deleteCustomer(
     customerId: number,
     force: boolean = false,
-    reassign?: number
+    reassign?: number,
+    options?: RequestOptions
   ): Promise<WooCommerceCustomer> {
     const params: Record<string, any> = { force }
     if (reassign !== undefined) {
       params.reassign = reassign
     }
-    return super.delete<WooCommerceCustomer>(`customers/${customerId}`, params)
+    return super.delete<WooCommerceCustomer>(`customers/${customerId}`, params, options)
   }
 
   /**
    * Performs batch operations on customers
    *
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(batch: BatchCustomersRequest): Promise<BatchCustomersResponse> {
-    return super.post<BatchCustomersResponse>('customers/batch', batch)
+  async batch(
+    batch: BatchCustomersRequest,
+    options?: RequestOptions
+  ): Promise<BatchCustomersResponse> {
+    return super.post<BatchCustomersResponse>('customers/batch', batch, options)
   }
 
   /**
    * Lists all downloadable files for a customer
    *
    * @param customerId - Customer ID
+   * @param options - Per-request options
    * @returns Array of customer downloads
    */
-  async listDownloads(customerId: number): Promise<CustomerDownload[]> {
-    return super.get<CustomerDownload[]>(`customers/${customerId}/downloads`)
+  async listDownloads(customerId: number, options?: RequestOptions): Promise<CustomerDownload[]> {
+    return super.get<CustomerDownload[]>(`customers/${customerId}/downloads`, undefined, options)
   }
 
   /**
    * Helper: Finds a customer by email
    *
    * @param email - Customer email address
+   * @param options - Per-request options
    * @returns Customer object or null if not found
    */
-  async findByEmail(email: string): Promise<WooCommerceCustomer | null> {
-    const customers = await this.list({ email, per_page: 1 })
+  async findByEmail(email: string, options?: RequestOptions): Promise<WooCommerceCustomer | null> {
+    const customers = await this.list({ email, per_page: 1 }, options)
     return customers[0] ?? null
   }
 }
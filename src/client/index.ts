@@ -5,6 +5,7 @@
  */
 
 import type { WooCommerceConfig } from '../types/common'
+import type { WooCommerceMiddleware } from '../types/middleware'
 import { ProductsClient } from './products-client'
 import { OrdersClient } from './orders-client'
 import { CustomersClient } from './customers-client'
@@ -13,7 +14,18 @@ import { WebhooksClient } from './webhooks-client'
 import { VariationsClient } from './variations-client'
 import { CategoriesClient } from './categories-client'
 import { TagsClient } from './tags-client'
+import { AttributesClient } from './attributes-client'
+import { AttributeTermsClient } from './attribute-terms-client'
+import { ReviewsClient } from './reviews-client'
+import { ShippingClassesClient } from './shipping-classes-client'
 import { RefundsClient } from './refunds-client'
+import { ShippingClient } from './shipping-client'
+import { TaxesClient } from './taxes-client'
+import { PaymentGatewaysClient } from './payment-gateways-client'
+import { SettingsClient } from './settings-client'
+import { SystemStatusClient } from './system-status-client'
+import { ReportsClient } from './reports-client'
+import { RateLimiter } from './rate-limiter'
 
 /**
  * Main WooCommerce REST API Client
@@ -57,6 +69,26 @@ export class WooCommerceClient {
    */
   public readonly tags: TagsClient
 
+  /**
+   * Product attributes API client
+   */
+  public readonly attributes: AttributesClient
+
+  /**
+   * Product attribute terms API client
+   */
+  public readonly attributeTerms: AttributeTermsClient
+
+  /**
+   * Product reviews API client
+   */
+  public readonly reviews: ReviewsClient
+
+  /**
+   * Product shipping classes API client
+   */
+  public readonly shippingClasses: ShippingClassesClient
+
   /**
    * Orders API client
    */
@@ -82,22 +114,87 @@ export class WooCommerceClient {
    */
   public readonly webhooks: WebhooksClient
 
+  /**
+   * Shipping zones and methods API client
+   */
+  public readonly shipping: ShippingClient
+
+  /**
+   * Tax rates and classes API client
+   */
+  public readonly taxes: TaxesClient
+
+  /**
+   * Payment gateways API client
+   */
+  public readonly paymentGateways: PaymentGatewaysClient
+
+  /**
+   * Settings API client
+   */
+  public readonly settings: SettingsClient
+
+  /**
+   * System status and tools API client
+   */
+  public readonly systemStatus: SystemStatusClient
+
+  /**
+   * Reports API client
+   */
+  public readonly reports: ReportsClient
+
+  /**
+   * Middleware chain shared by all resource clients
+   */
+  private readonly middleware: WooCommerceMiddleware[]
+
   /**
    * Creates a new WooCommerce client instance
    *
    * @param config - Configuration options
    */
   constructor(config: WooCommerceConfig) {
+    // Share a single rate limiter between all resource clients
+    if (config.rateLimit && !(config.rateLimit instanceof RateLimiter)) {
+      config = { ...config, rateLimit: new RateLimiter(config.rateLimit) }
+    }
+
+    // Share a single middleware chain so middleware added with use() applies everywhere
+    this.middleware = [...(config.middleware ?? [])]
+    config = { ...config, middleware: this.middleware }
+
     // Initialize all resource clients
     this.products = new ProductsClient(config)
     this.variations = new VariationsClient(config)
     this.categories = new CategoriesClient(config)
     this.tags = new TagsClient(config)
+    this.attributes = new AttributesClient(config)
+    this.attributeTerms = new AttributeTermsClient(config)
+    this.reviews = new ReviewsClient(config)
+    this.shippingClasses = new ShippingClassesClient(config)
     this.orders = new OrdersClient(config)
     this.refunds = new RefundsClient(config)
     this.customers = new CustomersClient(config)
     this.coupons = new CouponsClient(config)
     this.webhooks = new WebhooksClient(config)
+    this.shipping = new ShippingClient(config)
+    this.taxes = new TaxesClient(config)
+    this.paymentGateways = new PaymentGatewaysClient(config)
+    this.settings = new SettingsClient(config)
+    this.systemStatus = new SystemStatusClient(config)
+    this.reports = new ReportsClient(config)
+  }
+
+  /**
+   * Appends a middleware to the chain used by every resource client
+   *
+   * @param middleware - Middleware to add
+   * @returns The client, for chaining
+   */
+  use(middleware: WooCommerceMiddleware): this {
+    this.middleware.push(middleware)
+    return this
   }
 }
 
@@ -110,5 +207,18 @@ export { WebhooksClient } from './webhooks-client'
 export { VariationsClient } from './variations-client'
 export { CategoriesClient } from './categories-client'
 export { TagsClient } from './tags-client'
+export { AttributesClient } from './attributes-client'
+export { AttributeTermsClient } from './attribute-terms-client'
+export { ReviewsClient } from './reviews-client'
+export { ShippingClassesClient } from './shipping-classes-client'
 export { RefundsClient } from './refunds-client'
+export { ShippingClient } from './shipping-client'
+export { TaxesClient } from './taxes-client'
+export { PaymentGatewaysClient } from './payment-gateways-client'
+export { SettingsClient } from './settings-client'
+export { SystemStatusClient } from './system-status-client'
+export { ReportsClient } from './reports-client'
 export { BaseClient } from './base-client'
+export { RateLimiter } from './rate-limiter'
+export { createFetchTransport } from './transport'
+export { signOAuthRequest, toAuthorizationHeader } from './oauth'
@@ -0,0 +1,250 @@
+/**
+ * OAuth 1.0a request signing (RFC 5849) for WooCommerce stores served over plain HTTP
+ */
+
+import crypto from 'crypto-js'
+import type { OAuthSignatureMethod } from '../types/common'
+
+/**
+ * Request to sign with OAuth 1.0a
+ */
+export interface OAuthSignRequest {
+  /**
+   * HTTP method
+   */
+  method: string
+
+  /**
+   * Absolute request URL, query parameters included
+   */
+  url: string
+
+  /**
+   * Consumer key
+   */
+  consumerKey: string
+
+  /**
+   * Consumer secret
+   */
+  consumerSecret: string
+
+  /**
+   * Signature method (default: 'HMAC-SHA256')
+   */
+  signatureMethod?: OAuthSignatureMethod
+
+  /**
+   * Access token (not used by WooCommerce)
+   */
+  token?: string
+
+  /**
+   * Access token secret (not used by WooCommerce)
+   */
+  tokenSecret?: string
+
+  /**
+   * Form-encoded body parameters (`application/x-www-form-urlencoded` requests only)
+   */
+  formParams?: Array<[string, string]>
+
+  /**
+   * Nonce override (default: random)
+   */
+  nonce?: string
+
+  /**
+   * Timestamp override in seconds (default: now)
+   */
+  timestamp?: number
+}
+
+/**
+ * Percent-encodes a value as required by RFC 5849 section 3.6
+ *
+ * @param value - Value to encode
+ * @returns Encoded value
+ */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * Decodes a query string component, treating '+' as a space like PHP does
+ *
+ * @param value - Encoded component
+ * @returns Decoded value
+ */
+function decodeComponent(value: string): string {
+  return decodeURIComponent(value.replace(/\+/g, ' '))
+}
+
+/**
+ * Parses a query string into decoded key/value pairs, preserving duplicates
+ *
+ * @param query - Query string (without leading '?')
+ * @returns Decoded parameter pairs
+ */
+function parseQuery(query: string): Array<[string, string]> {
+  if (!query) return []
+
+  return query
+    .split('&')
+    .filter(Boolean)
+    .map(part => {
+      const index = part.indexOf('=')
+      return index === -1
+        ? [decodeComponent(part), '']
+        : [decodeComponent(part.slice(0, index)), decodeComponent(part.slice(index + 1))]
+    })
+}
+
+/**
+ * Builds the base string URI (RFC 5849 section 3.4.1.2)
+ * Lowercases scheme and host, drops default ports, the query and the fragment
+ *
+ * @param url - Absolute request URL
+ * @returns Base string URI
+ */
+export function normalizeBaseUri(url: string): string {
+  const parsed = new URL(url)
+  const scheme = parsed.protocol.toLowerCase()
+  const isDefaultPort =
+    !parsed.port ||
+    (scheme === 'http:' && parsed.port === '80') ||
+    (scheme === 'https:' && parsed.port === '443')
+  const host = parsed.hostname.toLowerCase() + (isDefaultPort ? '' : `:${parsed.port}`)
+
+  return `${scheme}//${host}${parsed.pathname}`
+}
+
+/**
+ * Builds the signature base string (RFC 5849 section 3.4.1)
+ *
+ * @param method - HTTP method
+ * @param url - Absolute request URL, query parameters included
+ * @param params - OAuth protocol and form parameters (decoded)
+ * @returns Signature base string
+ */
+export function buildSignatureBaseString(
+  method: string,
+  url: string,
+  params: Array<[string, string]>
+): string {
+  const queryIndex = url.indexOf('?')
+  const query = queryIndex === -1 ? '' : url.slice(queryIndex + 1).split('#')[0]!
+
+  const normalized = [...parseQuery(query), ...params]
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)] as const)
+    .sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB ? (valueA < valueB ? -1 : valueA > valueB ? 1 : 0) : keyA < keyB ? -1 : 1
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+
+  return [
+    method.toUpperCase(),
+    percentEncode(normalizeBaseUri(url)),
+    percentEncode(normalized),
+  ].join('&')
+}
+
+/**
+ * Signs a request and returns the OAuth protocol parameters, `oauth_signature` included
+ *
+ * @param request - Request to sign
+ * @returns OAuth protocol parameters
+ */
+export function signOAuthRequest(request: OAuthSignRequest): Record<string, string> {
+  const signatureMethod = request.signatureMethod ?? 'HMAC-SHA256'
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: request.consumerKey,
+    oauth_nonce: request.nonce ?? crypto.lib.WordArray.random(16).toString(crypto.enc.Hex),
+    oauth_signature_method: signatureMethod,
+    oauth_timestamp: String(request.timestamp ?? Math.floor(Date.now() / 1000)),
+    oauth_version: '1.0',
+  }
+
+  if (request.token) {
+    oauthParams.oauth_token = request.token
+  }
+
+  const baseString = buildSignatureBaseString(request.method, request.url, [
+    ...Object.entries(oauthParams),
+    ...(request.formParams ?? []),
+  ])
+  const key = `${percentEncode(request.consumerSecret)}&${percentEncode(request.tokenSecret ?? '')}`
+  const hash =
+    signatureMethod === 'HMAC-SHA1'
+      ? crypto.HmacSHA1(baseString, key)
+      : crypto.HmacSHA256(baseString, key)
+
+  return { ...oauthParams, oauth_signature: hash.toString(crypto.enc.Base64) }
+}
+
+/**
+ * Formats OAuth protocol parameters as an `Authorization` header value
+ *
+ * @param params - OAuth protocol parameters
+ * @returns Header value (e.g. 'OAuth oauth_consumer_key="...", ...')
+ */
+export function toAuthorizationHeader(params: Record<string, string>): string {
+  const fields = Object.keys(params)
+    .sort()
+    .map(key => `${percentEncode(key)}="${percentEncode(params[key]!)}"`)
+
+  return `OAuth ${fields.join(', ')}`
+}
+
+/**
+ * Appends OAuth protocol parameters to the query string of a URL
+ *
+ * @param url - Request URL
+ * @param params - OAuth protocol parameters
+ * @returns URL with OAuth parameters in the query string
+ */
+export function appendOAuthParams(url: string, params: Record<string, string>): string {
+  const query = Object.keys(params)
+    .sort()
+    .map(key => `${percentEncode(key)}=${percentEncode(params[key]!)}`)
+    .join('&')
+
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`
+}
+
+/**
+ * Rewrites `key[]` array parameters as indexed `key[0]`, `key[1]` parameters
+ *
+ * WooCommerce verifies signatures against PHP's parsed query, which indexes array
+ * parameters, so empty brackets would produce a signature mismatch.
+ *
+ * @param url - Request URL
+ * @returns URL with indexed array parameters
+ */
+export function indexArrayParams(url: string): string {
+  const queryIndex = url.indexOf('?')
+  if (queryIndex === -1) return url
+
+  const counters: Record<string, number> = {}
+  const query = url
+    .slice(queryIndex + 1)
+    .split('&')
+    .map(part => {
+      const index = part.indexOf('=')
+      const rawKey = index === -1 ? part : part.slice(0, index)
+      const key = decodeComponent(rawKey)
+      if (!key.endsWith('[]')) return part
+
+      const base = key.slice(0, -2)
+      const position = counters[base] ?? 0
+      counters[base] = position + 1
+      return `${encodeURIComponent(`${base}[${position}]`)}${index === -1 ? '' : part.slice(index)}`
+    })
+    .join('&')
+
+  return `${url.slice(0, queryIndex)}?${query}`
+}
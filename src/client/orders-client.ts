@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceOrder,
   CreateOrderRequest,
@@ -22,30 +28,72 @@ export class OrdersClient extends BaseClient {
    * Lists all orders
    *
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of orders
    */
-  async list(params?: ListOrdersParams): Promise<WooCommerceOrder[]> {
-    return super.get<WooCommerceOrder[]>('orders', params)
+  async list(params?: ListOrdersParams, options?: RequestOptions): Promise<WooCommerceOrder[]> {
+    return super.get<WooCommerceOrder[]>('orders', params, options)
+  }
+
+  /**
+   * Lists orders with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of orders with pagination metadata
+   */
+  async listPage(
+    params?: ListOrdersParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceOrder>> {
+    return super.getPage<WooCommerceOrder>('orders', params, options)
+  }
+
+  /**
+   * Iterates over orders, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over orders
+   */
+  iterate(
+    params?: ListOrdersParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceOrder, void, undefined> {
+    return super.paginate<WooCommerceOrder>('orders', params, options)
+  }
+
+  /**
+   * Retrieves all orders with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all orders
+   */
+  async listAll(params?: ListOrdersParams, options?: ListAllOptions): Promise<WooCommerceOrder[]> {
+    return super.collectAll<WooCommerceOrder>('orders', params, options)
   }
 
   /**
    * Retrieves a single order by ID
    *
    * @param orderId - Order ID
+   * @param options - Per-request options
    * @returns Order object
    */
-  async getOrder(orderId: number): Promise<WooCommerceOrder> {
-    return super.get<WooCommerceOrder>(`orders/${orderId}`)
+  async getOrder(orderId: number, options?: RequestOptions): Promise<WooCommerceOrder> {
+    return super.get<WooCommerceOrder>(`orders/${orderId}`, undefined, options)
   }
 
   /**
    * Creates a new order
    *
    * @param order - Order data
+   * @param options - Per-request options
    * @returns Created order
    */
-  async create(order: CreateOrderRequest): Promise<WooCommerceOrder> {
-    return super.post<WooCommerceOrder>('orders', order)
+  async create(order: CreateOrderRequest, options?: RequestOptions): Promise<WooCommerceOrder> {
+    return super.post<WooCommerceOrder>('orders', order, options)
   }
 
   /**
@@ -53,10 +101,15 @@ export class OrdersClient extends BaseClient {
    *
    * @param orderId - Order ID
    * @param updates - Order updates
+   * @param options - Per-request options
    * @returns Updated order
    */
-  async update(orderId: number, updates: UpdateOrderRequest): Promise<WooCommerceOrder> {
-    return super.put<WooCommerceOrder>(`orders/${orderId}`, updates)
+  async update(
+    orderId: number,
+    updates: UpdateOrderRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceOrder> {
+    return super.put<WooCommerceOrder>(`orders/${orderId}`, updates, options)
   }
 
   /**
@@ -64,30 +117,37 @@ export class OrdersClient extends BaseClient {
    *
    * @param orderId - Order ID
    * @param force - Whether to permanently delete (true) or move to trash (false)
+   * @param options - Per-request options
    * @returns Deleted order
    */
-  async deleteOrder(orderId: number, force: boolean = false): Promise<WooCommerceOrder> {
-    return super.delete<WooCommerceOrder>(`orders/${orderId}`, { force })
+  async deleteOrder(
+    orderId: number,
+    force: boolean = false,
+    options?: RequestOptions
+  ): Promise<WooCommerceOrder> {
+    return super.delete<WooCommerceOrder>(`orders/${orderId}`, { force }, options)
   }
 
   /**
    * Performs batch operations on orders
    *
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(batch: BatchOrdersRequest): Promise<BatchOrdersResponse> {
-    return super.post<BatchOrdersResponse>('orders/batch', batch)
+  async batch(batch: BatchOrdersRequest, options?: RequestOptions): Promise<BatchOrdersResponse> {
+    return super.post<BatchOrdersResponse>('orders/batch', batch, options)
   }
 
   /**
    * Lists all notes for an order
    *
    * @param orderId - Order ID
+   * @param options - Per-request options
    * @returns Array of order notes
    */
-  async listNotes(orderId: number): Promise<OrderNote[]> {
-    return super.get<OrderNote[]>(`orders/${orderId}/notes`)
+  async listNotes(orderId: number, options?: RequestOptions): Promise<OrderNote[]> {
+    return super.get<OrderNote[]>(`orders/${orderId}/notes`, undefined, options)
   }
 
   /**
@@ -95,10 +155,11 @@ export class OrdersClient extends BaseClient {
    *
    * @param orderId - Order ID
    * @param noteId - Note ID
+   * @param options - Per-request options
    * @returns Order note
    */
-  async getNote(orderId: number, noteId: number): Promise<OrderNote> {
-    return super.get<OrderNote>(`orders/${orderId}/notes/${noteId}`)
+  async getNote(orderId: number, noteId: number, options?: RequestOptions): Promise<OrderNote> {
+    return super.get<OrderNote>(`orders/${orderId}/notes/${noteId}`, undefined, options)
   }
 
   /**
@@ -106,10 +167,15 @@ export class OrdersClient extends BaseClient {
    *
    * @param orderId - Order ID
    * @param note - Note data
+   * @param options - Per-request options
    * @returns Created note
    */
-  async createNote(orderId: number, note: CreateOrderNoteRequest): Promise<OrderNote> {
-    return super.post<OrderNote>(`orders/${orderId}/notes`, note)
+  async createNote(
+    orderId: number,
+    note: CreateOrderNoteRequest,
+    options?: RequestOptions
+  ): Promise<OrderNote> {
+    return super.post<OrderNote>(`orders/${orderId}/notes`, note, options)
   }
 
   /**
@@ -118,10 +184,16 @@ export class OrdersClient extends BaseClient {
    * @param orderId - Order ID
    * @param noteId - Note ID
    * @param force - Whether to permanently delete
+   * @param options - Per-request options
    * @returns Deleted note
    */
-  async deleteNote(orderId: number, noteId: number, force: boolean = true): Promise<OrderNote> {
-    return super.delete<OrderNote>(`orders/${orderId}/notes/${noteId}`, { force })
+  async deleteNote(
+    orderId: number,
+    noteId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<OrderNote> {
+    return super.delete<OrderNote>(`orders/${orderId}/notes/${noteId}`, { force }, options)
   }
 
   /**
@@ -129,6 +201,7 @@ export class OrdersClient extends BaseClient {
    *
    * @param status - Order status filter
    * @param perPage - Items per page (default: 100, max: 100)
+   * @param options - Concurrency and per-request options
    * @returns Array of all orders
    */
   async getAll(
@@ -140,28 +213,9 @@ export class OrdersClient extends BaseClient {
       | 'cancelled'
       | 'refunded'
       | 'failed',
-    perPage: number = 100
+    perPage: number = 100,
+    options?: ListAllOptions
   ): Promise<WooCommerceOrder[]> {
-    const allOrders: WooCommerceOrder[] = []
-    let page = 1
-    let hasMore = true
-
-    while (hasMore) {
-      const orders = await this.list({
-        status,
-        per_page: perPage,
-        page,
-      })
-
-      allOrders.push(...orders)
-
-      if (orders.length < perPage) {
-        hasMore = false
-      } else {
-        page++
-      }
-    }
-
-    return allOrders
+    return this.listAll({ status, per_page: perPage }, options)
   }
 }
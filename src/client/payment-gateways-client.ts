@@ -0,0 +1,133 @@
+/**
+ * Payment Gateways API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import { WooCommerceValidationError } from '../errors'
+import type { RequestOptions } from '../types/common'
+import type {
+  WooCommercePaymentGateway,
+  UpdatePaymentGatewayRequest,
+} from '../types/payment-gateways'
+
+/**
+ * Checks setting values against the settings schema of a gateway
+ *
+ * @param gateway - Payment gateway
+ * @param values - Setting values keyed by setting ID
+ * @returns Error messages keyed by setting ID
+ */
+function validateSettings(
+  gateway: WooCommercePaymentGateway,
+  values: Record<string, string>
+): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  for (const [id, value] of Object.entries(values)) {
+    const setting = gateway.settings[id]
+    if (!setting) {
+      errors[id] = `Unknown setting for gateway "${gateway.id}"`
+    } else if (setting.type === 'checkbox' && value !== 'yes' && value !== 'no') {
+      errors[id] = `Expected 'yes' or 'no', got '${value}'`
+    } else if (
+      (setting.type === 'select' || setting.type === 'radio') &&
+      setting.options &&
+      !(value in setting.options)
+    ) {
+      errors[id] = `Expected one of ${Object.keys(setting.options).join(', ')}, got '${value}'`
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Client for reading and configuring payment gateways
+ * Gateways are registered by WooCommerce and extensions, so they cannot be created or deleted
+ */
+export class PaymentGatewaysClient extends BaseClient {
+  /**
+   * Lists all payment gateways
+   * The endpoint is not paginated, every gateway is returned in one response
+   *
+   * @param options - Per-request options
+   * @returns Array of payment gateways
+   */
+  async list(options?: RequestOptions): Promise<WooCommercePaymentGateway[]> {
+    return super.get<WooCommercePaymentGateway[]>('payment_gateways', undefined, options)
+  }
+
+  /**
+   * Retrieves a single payment gateway by ID
+   *
+   * @param gatewayId - Gateway ID (e.g. 'bacs')
+   * @param options - Per-request options
+   * @returns Payment gateway object
+   */
+  async getGateway(
+    gatewayId: string,
+    options?: RequestOptions
+  ): Promise<WooCommercePaymentGateway> {
+    return super.get<WooCommercePaymentGateway>(
+      `payment_gateways/${encodeURIComponent(gatewayId)}`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Updates a payment gateway
+   *
+   * @param gatewayId - Gateway ID
+   * @param updates - Gateway updates
+   * @param options - Per-request options
+   * @returns Updated payment gateway
+   */
+  async update(
+    gatewayId: string,
+    updates: UpdatePaymentGatewayRequest,
+    options?: RequestOptions
+  ): Promise<WooCommercePaymentGateway> {
+    return super.put<WooCommercePaymentGateway>(
+      `payment_gateways/${encodeURIComponent(gatewayId)}`,
+      updates,
+      options
+    )
+  }
+
+  /**
+   * Helper: Updates gateway settings after checking them against the gateway's settings schema
+   * WooCommerce silently ignores unknown settings, so typos and invalid choices are rejected
+   * before anything is sent
+   *
+   * @param gatewayId - Gateway ID
+   * @param values - Setting values keyed by setting ID (checkboxes use 'yes'/'no')
+   * @param options - Per-request options
+   * @returns Updated payment gateway
+   * @throws {WooCommerceValidationError} If a setting is unknown or its value is not allowed
+   *
+   * @example
+   * ```typescript
+   * await woocommerce.paymentGateways.updateSettings('stripe', { testmode: 'yes' })
+   * ```
+   */
+  async updateSettings(
+    gatewayId: string,
+    values: Record<string, string>,
+    options?: RequestOptions
+  ): Promise<WooCommercePaymentGateway> {
+    const gateway = await this.getGateway(gatewayId, options)
+    const errors = validateSettings(gateway, values)
+
+    if (Object.keys(errors).length > 0) {
+      throw new WooCommerceValidationError(
+        `Invalid settings for payment gateway "${gatewayId}"`,
+        400,
+        undefined,
+        errors
+      )
+    }
+
+    return this.update(gatewayId, { settings: values }, options)
+  }
+}
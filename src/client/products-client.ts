@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceProduct,
   CreateProductRequest,
@@ -20,30 +26,64 @@ export class ProductsClient extends BaseClient {
    * Lists all products
    *
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of products
    */
-  async list(params?: ListProductsParams): Promise<WooCommerceProduct[]> {
-    return super.get<WooCommerceProduct[]>('products', params)
+  async list(params?: ListProductsParams, options?: RequestOptions): Promise<WooCommerceProduct[]> {
+    return super.get<WooCommerceProduct[]>('products', params, options)
+  }
+
+  /**
+   * Lists products with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of products with pagination metadata
+   */
+  async listPage(
+    params?: ListProductsParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceProduct>> {
+    return super.getPage<WooCommerceProduct>('products', params, options)
+  }
+
+  /**
+   * Iterates over products, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over products
+   */
+  iterate(
+    params?: ListProductsParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceProduct, void, undefined> {
+    return super.paginate<WooCommerceProduct>('products', params, options)
   }
 
   /**
    * Retrieves a single product by ID
    *
    * @param productId - Product ID
+   * @param options - Per-request options
    * @returns Product object
    */
-  async getProduct(productId: number): Promise<WooCommerceProduct> {
-    return super.get<WooCommerceProduct>(`products/${productId}`)
+  async getProduct(productId: number, options?: RequestOptions): Promise<WooCommerceProduct> {
+    return super.get<WooCommerceProduct>(`products/${productId}`, undefined, options)
   }
 
   /**
    * Creates a new product
    *
    * @param product - Product data
+   * @param options - Per-request options
    * @returns Created product
    */
-  async create(product: CreateProductRequest): Promise<WooCommerceProduct> {
-    return super.post<WooCommerceProduct>('products', product)
+  async create(
+    product: CreateProductRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceProduct> {
+    return super.post<WooCommerceProduct>('products', product, options)
   }
 
   /**
@@ -51,10 +91,15 @@ export class ProductsClient extends BaseClient {
    *
    * @param productId - Product ID
    * @param updates - Product updates
+   * @param options - Per-request options
    * @returns Updated product
    */
-  async update(productId: number, updates: UpdateProductRequest): Promise<WooCommerceProduct> {
-    return super.put<WooCommerceProduct>(`products/${productId}`, updates)
+  async update(
+    productId: number,
+    updates: UpdateProductRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceProduct> {
+    return super.put<WooCommerceProduct>(`products/${productId}`, updates, options)
   }
 
   /**
@@ -62,20 +107,29 @@ export class ProductsClient extends BaseClient {
    *
    * @param productId - Product ID
    * @param force - Whether to permanently delete (true) or move to trash (false)
+   * @param options - Per-request options
    * @returns Deleted product
    */
-  async deleteProduct(productId: number, force: boolean = false): Promise<WooCommerceProduct> {
-    return super.delete<WooCommerceProduct>(`products/${productId}`, { force })
+  async deleteProduct(
+    productId: number,
+    force: boolean = false,
+    options?: RequestOptions
+  ): Promise<WooCommerceProduct> {
+    return super.delete<WooCommerceProduct>(`products/${productId}`, { force }, options)
   }
 
   /**
    * Performs batch operations on products
    *
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(batch: BatchProductsRequest): Promise<BatchProductsResponse> {
-    return super.post<BatchProductsResponse>('products/batch', batch)
+  async batch(
+    batch: BatchProductsRequest,
+    options?: RequestOptions
+  ): Promise<BatchProductsResponse> {
+    return super.post<BatchProductsResponse>('products/batch', batch, options)
   }
 
   /**
@@ -83,66 +137,32 @@ export class ProductsClient extends BaseClient {
    *
    * @param status - Product status filter (default: 'publish')
    * @param perPage - Items per page (default: 100, max: 100)
+   * @param options - Concurrency and per-request options
    * @returns Array of all products
    */
   async getAll(
     status: 'publish' | 'draft' | 'pending' | 'private' | 'any' = 'publish',
-    perPage: number = 100
+    perPage: number = 100,
+    options?: ListAllOptions
   ): Promise<WooCommerceProduct[]> {
-    const allProducts: WooCommerceProduct[] = []
-    let page = 1
-    let hasMore = true
-
-    while (hasMore) {
-      const products = await this.list({
-        status: status === 'any' ? undefined : status,
-        per_page: perPage,
-        page,
-      })
-
-      allProducts.push(...products)
-
-      // Check if there are more pages
-      if (products.length < perPage) {
-        hasMore = false
-      } else {
-        page++
-      }
-    }
-
-    return allProducts
+    return this.listAll(
+      { status: status === 'any' ? undefined : status, per_page: perPage },
+      options
+    )
   }
 
   /**
    * Lists all products with automatic pagination
    *
    * @param params - Query parameters for filtering
+   * @param options - Concurrency and per-request options
    * @returns Array of all products
    */
-  async listAll(params?: ListProductsParams): Promise<WooCommerceProduct[]> {
-    const allProducts: WooCommerceProduct[] = []
-    let page = 1
-    let hasMore = true
-    const perPage = params?.per_page ?? 100
-
-    while (hasMore) {
-      const products = await this.list({
-        ...params,
-        per_page: perPage,
-        page,
-      })
-
-      allProducts.push(...products)
-
-      // Check if there are more pages
-      if (products.length < perPage) {
-        hasMore = false
-      } else {
-        page++
-      }
-    }
-
-    return allProducts
+  async listAll(
+    params?: ListProductsParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceProduct[]> {
+    return super.collectAll<WooCommerceProduct>('products', params, options)
   }
 
   /**
@@ -151,10 +171,12 @@ export class ProductsClient extends BaseClient {
    * and applies rate limiting between batches
    *
    * @param updates - Array of product updates (id + stock_quantity)
+   * @param options - Per-request options applied to each batch call
    * @returns Batch operation response
    */
   async batchUpdate(
-    updates: Array<{ id: number; stock_quantity: number }>
+    updates: Array<{ id: number; stock_quantity: number }>,
+    options?: RequestOptions
   ): Promise<BatchProductsResponse> {
     if (updates.length === 0) {
       return { update: [] }
@@ -182,14 +204,19 @@ export class ProductsClient extends BaseClient {
         })),
       }
 
-      const response = await super.post<BatchProductsResponse>('products/batch', batchRequest)
+      const response = await super.post<BatchProductsResponse>(
+        'products/batch',
+        batchRequest,
+        options
+      )
 
       if (response.update) {
         allResults.push(...response.update)
       }
 
       // Rate limiting: Wait between batches (except after last batch)
-      if (i < batches.length - 1) {
+      // A configured rate limiter already throttles every request
+      if (i < batches.length - 1 && !this.rateLimiter) {
         const delayMs = parseInt(process.env.WOOCOMMERCE_RATE_LIMIT_DELAY_MS || '100', 10)
         await new Promise(resolve => setTimeout(resolve, delayMs))
       }
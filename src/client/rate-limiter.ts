@@ -0,0 +1,176 @@
+/**
+ * Client-side rate limiter for WooCommerce API requests
+ */
+
+import type { RateLimitConfig } from '../types/common'
+import { WooCommerceRateLimitError } from '../errors'
+import { sleep } from '../utils'
+
+/**
+ * Token bucket limiter with a concurrency cap and adaptive slow-down
+ *
+ * A single instance is shared by every resource client of a `WooCommerceClient`,
+ * so all requests to a store draw from the same budget.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 5, maxConcurrent: 2 })
+ * const result = await limiter.schedule(() => fetch(url))
+ * ```
+ */
+export class RateLimiter {
+  private readonly baseRate: number
+  private readonly capacity: number
+  private readonly maxConcurrent: number
+  private readonly adaptive: boolean
+  private readonly minRate: number
+  private rate: number
+  private tokens: number
+  private lastRefill: number
+  private pausedUntil = 0
+  private active = 0
+  private readonly queue: Array<() => void> = []
+
+  constructor(config: RateLimitConfig = {}) {
+    this.baseRate = config.requestsPerSecond ?? Infinity
+    this.rate = this.baseRate
+    this.capacity = config.burst ?? (Number.isFinite(this.baseRate) ? Math.ceil(this.baseRate) : 1)
+    this.tokens = this.capacity
+    this.maxConcurrent = config.maxConcurrent ?? Infinity
+    this.adaptive = config.adaptive ?? true
+    this.minRate = this.baseRate === Infinity ? Infinity : this.baseRate / 8
+    this.lastRefill = Date.now()
+  }
+
+  /**
+   * Current number of requests allowed per second (lowered after 429 responses)
+   */
+  get currentRate(): number {
+    return this.rate
+  }
+
+  /**
+   * Runs a task once a concurrency slot and a token are available
+   * Rate limit errors thrown by the task slow down all subsequent requests
+   *
+   * @param task - Async task to run
+   * @param signal - Abort signal, aborting takes the task out of the queue
+   * @returns Result of the task
+   * @throws The abort reason if the signal aborts before the task starts
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquireSlot(signal)
+
+    try {
+      await this.acquireToken(signal)
+      const result = await task()
+      this.recordSuccess()
+      return result
+    } catch (error) {
+      if (error instanceof WooCommerceRateLimitError) {
+        this.recordRateLimit(error.retryAfter)
+      }
+      throw error
+    } finally {
+      this.releaseSlot()
+    }
+  }
+
+  /**
+   * Pauses all requests and lowers the request rate after a 429 response
+   *
+   * @param retryAfter - Delay in seconds from the `Retry-After` header
+   */
+  recordRateLimit(retryAfter?: number): void {
+    if (!this.adaptive) return
+
+    const pauseMs = retryAfter !== undefined ? retryAfter * 1000 : 1000
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs)
+
+    if (this.rate !== Infinity) {
+      this.rate = Math.max(this.minRate, this.rate / 2)
+    }
+  }
+
+  /**
+   * Gradually restores the request rate after successful requests
+   */
+  recordSuccess(): void {
+    if (this.rate < this.baseRate) {
+      this.rate = Math.min(this.baseRate, this.rate + this.baseRate * 0.05)
+    }
+  }
+
+  /**
+   * Waits for a free concurrency slot
+   *
+   * @param signal - Abort signal, aborting removes the waiter from the queue
+   */
+  private async acquireSlot(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted()
+
+    if (this.active < this.maxConcurrent) {
+      this.active++
+      return
+    }
+
+    // The slot is handed over directly by releaseSlot
+    await new Promise<void>((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(grant), 1)
+        reject(signal!.reason)
+      }
+
+      this.queue.push(grant)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  /**
+   * Releases a concurrency slot to the next waiting request
+   */
+  private releaseSlot(): void {
+    const next = this.queue.shift()
+    if (next) {
+      next()
+    } else {
+      this.active--
+    }
+  }
+
+  /**
+   * Waits until the bucket has a token and no pause is in effect
+   *
+   * @param signal - Abort signal, aborting stops waiting
+   */
+  private async acquireToken(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted()
+      const now = Date.now()
+
+      if (this.pausedUntil > now) {
+        await sleep(this.pausedUntil - now, signal)
+        continue
+      }
+
+      if (this.rate === Infinity) return
+
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + ((now - this.lastRefill) / 1000) * this.rate
+      )
+      this.lastRefill = now
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1
+        return
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000), signal)
+    }
+  }
+}
@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type { WooCommerceRefund, CreateRefundRequest, ListRefundsParams } from '../types/refunds'
 
 /**
@@ -14,10 +20,63 @@ export class RefundsClient extends BaseClient {
    *
    * @param orderId - Order ID
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of refunds
    */
-  async list(orderId: number, params?: ListRefundsParams): Promise<WooCommerceRefund[]> {
-    return super.get<WooCommerceRefund[]>(`orders/${orderId}/refunds`, params)
+  async list(
+    orderId: number,
+    params?: ListRefundsParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceRefund[]> {
+    return super.get<WooCommerceRefund[]>(`orders/${orderId}/refunds`, params, options)
+  }
+
+  /**
+   * Lists refunds for an order with pagination metadata
+   *
+   * @param orderId - Order ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of refunds with pagination metadata
+   */
+  async listPage(
+    orderId: number,
+    params?: ListRefundsParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceRefund>> {
+    return super.getPage<WooCommerceRefund>(`orders/${orderId}/refunds`, params, options)
+  }
+
+  /**
+   * Iterates over refunds for an order, fetching one page at a time
+   *
+   * @param orderId - Order ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over refunds
+   */
+  iterate(
+    orderId: number,
+    params?: ListRefundsParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceRefund, void, undefined> {
+    return super.paginate<WooCommerceRefund>(`orders/${orderId}/refunds`, params, options)
+  }
+
+  /**
+   * Retrieves all refunds for an order with automatic pagination
+   *
+   * @param orderId - Order ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all refunds
+   */
+  async listAll(
+    orderId: number,
+    params?: ListRefundsParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceRefund[]> {
+    return super.collectAll<WooCommerceRefund>(`orders/${orderId}/refunds`, params, options)
   }
 
   /**
@@ -25,10 +84,15 @@ export class RefundsClient extends BaseClient {
    *
    * @param orderId - Order ID
    * @param refundId - Refund ID
+   * @param options - Per-request options
    * @returns Refund object
    */
-  async getRefund(orderId: number, refundId: number): Promise<WooCommerceRefund> {
-    return super.get<WooCommerceRefund>(`orders/${orderId}/refunds/${refundId}`)
+  async getRefund(
+    orderId: number,
+    refundId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceRefund> {
+    return super.get<WooCommerceRefund>(`orders/${orderId}/refunds/${refundId}`, undefined, options)
   }
 
   /**
@@ -36,10 +100,15 @@ export class RefundsClient extends BaseClient {
    *
    * @param orderId - Order ID
    * @param refund - Refund data
+   * @param options - Per-request options
    * @returns Created refund
    */
-  async create(orderId: number, refund: CreateRefundRequest): Promise<WooCommerceRefund> {
-    return super.post<WooCommerceRefund>(`orders/${orderId}/refunds`, refund)
+  async create(
+    orderId: number,
+    refund: CreateRefundRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceRefund> {
+    return super.post<WooCommerceRefund>(`orders/${orderId}/refunds`, refund, options)
   }
 
   /**
@@ -48,13 +117,19 @@ export class RefundsClient extends BaseClient {
    * @param orderId - Order ID
    * @param refundId - Refund ID
    * @param force - Whether to permanently delete
+   * @param options - Per-request options
    * @returns Deleted refund
    */
   async deleteRefund(
     orderId: number,
     refundId: number,
-    force: boolean = true
+    force: boolean = true,
+    options?: RequestOptions
   ): Promise<WooCommerceRefund> {
-    return super.delete<WooCommerceRefund>(`orders/${orderId}/refunds/${refundId}`, { force })
+    return super.delete<WooCommerceRefund>(
+      `orders/${orderId}/refunds/${refundId}`,
+      { force },
+      options
+    )
   }
 }
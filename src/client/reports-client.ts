@@ -0,0 +1,123 @@
+/**
+ * Reports API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import { WooCommerceError } from '../errors'
+import type { RequestOptions } from '../types/common'
+import type {
+  WooCommerceReport,
+  ReportParams,
+  WooCommerceSalesReport,
+  WooCommerceTopSeller,
+  OrdersTotal,
+  ProductsTotal,
+  CustomersTotal,
+  CouponsTotal,
+  ReviewsTotal,
+} from '../types/reports'
+
+/**
+ * Client for the store reports (sales, top sellers and resource totals)
+ */
+export class ReportsClient extends BaseClient {
+  /**
+   * Lists the available reports
+   *
+   * @param options - Per-request options
+   * @returns Array of reports
+   */
+  async list(options?: RequestOptions): Promise<WooCommerceReport[]> {
+    return super.get<WooCommerceReport[]>('reports', undefined, options)
+  }
+
+  /**
+   * Retrieves the sales report for a period
+   *
+   * @param params - Period or date range (defaults to the current week)
+   * @param options - Per-request options
+   * @returns Sales report, with totals keyed by date
+   * @throws {WooCommerceError} If the response does not contain a report
+   *
+   * @example
+   * ```typescript
+   * const sales = await woocommerce.reports.getSales({
+   *   date_min: '2024-05-01',
+   *   date_max: '2024-05-01',
+   * })
+   * console.log(sales.net_sales, sales.totals['2024-05-01']?.orders)
+   * ```
+   */
+  async getSales(params?: ReportParams, options?: RequestOptions): Promise<WooCommerceSalesReport> {
+    // The endpoint wraps the report in a single-item array
+    const [report] = await super.get<WooCommerceSalesReport[]>('reports/sales', params, options)
+    if (!report) {
+      throw new WooCommerceError('Sales report response is empty')
+    }
+    return report
+  }
+
+  /**
+   * Retrieves the best selling products for a period
+   *
+   * @param params - Period or date range (defaults to the current week)
+   * @param options - Per-request options
+   * @returns Top sellers, best selling first
+   */
+  async getTopSellers(
+    params?: ReportParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceTopSeller[]> {
+    return super.get<WooCommerceTopSeller[]>('reports/top_sellers', params, options)
+  }
+
+  /**
+   * Retrieves the number of orders per status
+   *
+   * @param options - Per-request options
+   * @returns Totals per order status
+   */
+  async getOrdersTotals(options?: RequestOptions): Promise<OrdersTotal[]> {
+    return super.get<OrdersTotal[]>('reports/orders/totals', undefined, options)
+  }
+
+  /**
+   * Retrieves the number of products per product type
+   *
+   * @param options - Per-request options
+   * @returns Totals per product type
+   */
+  async getProductsTotals(options?: RequestOptions): Promise<ProductsTotal[]> {
+    return super.get<ProductsTotal[]>('reports/products/totals', undefined, options)
+  }
+
+  /**
+   * Retrieves the number of paying and non-paying customers
+   *
+   * @param options - Per-request options
+   * @returns Totals per customer kind
+   */
+  async getCustomersTotals(options?: RequestOptions): Promise<CustomersTotal[]> {
+    return super.get<CustomersTotal[]>('reports/customers/totals', undefined, options)
+  }
+
+  /**
+   * Retrieves the number of coupons per discount type
+   *
+   * @param options - Per-request options
+   * @returns Totals per discount type
+   */
+  async getCouponsTotals(options?: RequestOptions): Promise<CouponsTotal[]> {
+    return super.get<CouponsTotal[]>('reports/coupons/totals', undefined, options)
+  }
+
+  /**
+   * Retrieves the number of reviews per star rating
+   *
+   * @param options - Per-request options
+   * @returns Totals per rating
+   */
+  async getReviewsTotals(options?: RequestOptions): Promise<ReviewsTotal[]> {
+    return super.get<ReviewsTotal[]>('reports/reviews/totals', undefined, options)
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Retry policy for WooCommerce API requests
+ */
+
+import type { RetryConfig } from '../types/common'
+import { WooCommerceError, WooCommerceNetworkError, WooCommerceRateLimitError } from '../errors'
+import { calculateBackoffDelay } from '../utils'
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryConfig, 'onRetry'>> &
+  Pick<RetryConfig, 'onRetry'>
+
+/**
+ * HTTP methods that can be safely repeated
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+/**
+ * Resolves the retry option of the client configuration into a complete policy
+ *
+ * @param retry - Retry option from `WooCommerceConfig`
+ * @returns Resolved policy (a single attempt when retries are disabled)
+ */
+export function resolveRetryPolicy(retry?: RetryConfig | boolean): ResolvedRetryPolicy {
+  const config: RetryConfig = typeof retry === 'object' ? retry : {}
+  const enabled = retry !== undefined && retry !== false
+
+  return {
+    maxAttempts: enabled ? Math.max(1, config.maxAttempts ?? 3) : 1,
+    baseDelay: config.baseDelay ?? 500,
+    maxDelay: config.maxDelay ?? 30000,
+    jitter: config.jitter ?? 'full',
+    retryableStatusCodes: config.retryableStatusCodes ?? [408, 425, 429, 500, 502, 503, 504],
+    retryableErrors: config.retryableErrors ?? [WooCommerceNetworkError, WooCommerceRateLimitError],
+    retryNonIdempotent: config.retryNonIdempotent ?? false,
+    respectRetryAfter: config.respectRetryAfter ?? true,
+    onRetry: config.onRetry,
+  }
+}
+
+/**
+ * Determines whether a failed request should be retried
+ *
+ * @param policy - Resolved retry policy
+ * @param error - Error thrown by the request
+ * @param method - HTTP method of the request
+ * @param attempt - One-based number of the attempt that failed
+ * @returns True if another attempt should be made
+ */
+export function shouldRetry(
+  policy: ResolvedRetryPolicy,
+  error: unknown,
+  method: string,
+  attempt: number
+): error is WooCommerceError {
+  if (attempt >= policy.maxAttempts || !(error instanceof WooCommerceError)) {
+    return false
+  }
+
+  if (!policy.retryNonIdempotent && !IDEMPOTENT_METHODS.includes(method)) {
+    return false
+  }
+
+  if (policy.retryableErrors.some(errorClass => error instanceof errorClass)) {
+    return true
+  }
+
+  return error.statusCode !== undefined && policy.retryableStatusCodes.includes(error.statusCode)
+}
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * @param policy - Resolved retry policy
+ * @param error - Error thrown by the request
+ * @param attempt - One-based number of the attempt that failed
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  error: WooCommerceError,
+  attempt: number
+): number {
+  if (
+    policy.respectRetryAfter &&
+    error instanceof WooCommerceRateLimitError &&
+    error.retryAfter !== undefined
+  ) {
+    return Math.min(policy.maxDelay, error.retryAfter * 1000)
+  }
+
+  return calculateBackoffDelay(attempt - 1, policy.baseDelay, policy.maxDelay, policy.jitter)
+}
@@ -0,0 +1,170 @@
+/**
+ * Product Reviews API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
+import type {
+  WooCommerceReview,
+  CreateReviewRequest,
+  UpdateReviewRequest,
+  ListReviewsParams,
+  BatchReviewsRequest,
+  BatchReviewsResponse,
+  DeletedReviewResponse,
+  ReviewStatusUpdate,
+} from '../types/reviews'
+
+/**
+ * Client for managing and moderating product reviews
+ */
+export class ReviewsClient extends BaseClient {
+  /**
+   * Lists product reviews
+   * Only approved reviews are returned unless `status` is set
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Array of reviews
+   */
+  async list(params?: ListReviewsParams, options?: RequestOptions): Promise<WooCommerceReview[]> {
+    return super.get<WooCommerceReview[]>('products/reviews', params, options)
+  }
+
+  /**
+   * Lists product reviews with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of reviews with pagination metadata
+   */
+  async listPage(
+    params?: ListReviewsParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceReview>> {
+    return super.getPage<WooCommerceReview>('products/reviews', params, options)
+  }
+
+  /**
+   * Iterates over product reviews, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over reviews
+   */
+  iterate(
+    params?: ListReviewsParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceReview, void, undefined> {
+    return super.paginate<WooCommerceReview>('products/reviews', params, options)
+  }
+
+  /**
+   * Retrieves all product reviews with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all reviews
+   */
+  async listAll(
+    params?: ListReviewsParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceReview[]> {
+    return super.collectAll<WooCommerceReview>('products/reviews', params, options)
+  }
+
+  /**
+   * Retrieves a single review by ID
+   *
+   * @param reviewId - Review ID
+   * @param options - Per-request options
+   * @returns Review object
+   */
+  async getReview(reviewId: number, options?: RequestOptions): Promise<WooCommerceReview> {
+    return super.get<WooCommerceReview>(`products/reviews/${reviewId}`, undefined, options)
+  }
+
+  /**
+   * Creates a new review
+   *
+   * @param review - Review data
+   * @param options - Per-request options
+   * @returns Created review
+   */
+  async create(review: CreateReviewRequest, options?: RequestOptions): Promise<WooCommerceReview> {
+    return super.post<WooCommerceReview>('products/reviews', review, options)
+  }
+
+  /**
+   * Updates an existing review
+   *
+   * @param reviewId - Review ID
+   * @param updates - Review updates
+   * @param options - Per-request options
+   * @returns Updated review
+   */
+  async update(
+    reviewId: number,
+    updates: UpdateReviewRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceReview> {
+    return super.put<WooCommerceReview>(`products/reviews/${reviewId}`, updates, options)
+  }
+
+  /**
+   * Helper: Changes the moderation status of a review
+   *
+   * @param reviewId - Review ID
+   * @param status - New status ('approved', 'hold', 'spam', 'trash', 'unspam' or 'untrash')
+   * @param options - Per-request options
+   * @returns Updated review
+   *
+   * @example
+   * ```typescript
+   * await woocommerce.reviews.moderate(42, 'approved')
+   * ```
+   */
+  async moderate(
+    reviewId: number,
+    status: ReviewStatusUpdate,
+    options?: RequestOptions
+  ): Promise<WooCommerceReview> {
+    return this.update(reviewId, { status }, options)
+  }
+
+  /**
+   * Deletes a review
+   *
+   * @param reviewId - Review ID
+   * @param force - Whether to permanently delete instead of moving to trash
+   * @param options - Per-request options
+   * @returns Trashed review, or the deletion response when `force` is true
+   */
+  async deleteReview(
+    reviewId: number,
+    force: boolean = false,
+    options?: RequestOptions
+  ): Promise<WooCommerceReview | DeletedReviewResponse> {
+    return super.delete<WooCommerceReview | DeletedReviewResponse>(
+      `products/reviews/${reviewId}`,
+      { force },
+      options
+    )
+  }
+
+  /**
+   * Performs batch operations on reviews
+   *
+   * @param batch - Batch operation data
+   * @param options - Per-request options
+   * @returns Batch operation results
+   */
+  async batch(batch: BatchReviewsRequest, options?: RequestOptions): Promise<BatchReviewsResponse> {
+    return super.post<BatchReviewsResponse>('products/reviews/batch', batch, options)
+  }
+}
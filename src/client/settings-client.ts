@@ -0,0 +1,156 @@
+/**
+ * Settings API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type { RequestOptions } from '../types/common'
+import type {
+  WooCommerceSettingsGroup,
+  WooCommerceSettingOption,
+  SettingsGroupValues,
+  SettingsGroupOptionId,
+  SettingsGroupOptionValue,
+  BatchSettingOptionsRequest,
+  BatchSettingOptionsResponse,
+} from '../types/settings'
+
+/**
+ * Client for reading and updating store settings
+ * Options of the core groups ('general', 'products', 'tax', 'checkout', 'email', 'advanced')
+ * are typed, groups defined by extensions use untyped values
+ */
+export class SettingsClient extends BaseClient {
+  /**
+   * Lists all settings groups
+   *
+   * @param options - Per-request options
+   * @returns Array of settings groups
+   */
+  async listGroups(options?: RequestOptions): Promise<WooCommerceSettingsGroup[]> {
+    return super.get<WooCommerceSettingsGroup[]>('settings', undefined, options)
+  }
+
+  /**
+   * Lists the options of a settings group
+   *
+   * @param group - Group ID (e.g. 'general')
+   * @param options - Per-request options
+   * @returns Array of setting options
+   */
+  async listOptions(group: string, options?: RequestOptions): Promise<WooCommerceSettingOption[]> {
+    return super.get<WooCommerceSettingOption[]>(`settings/${group}`, undefined, options)
+  }
+
+  /**
+   * Retrieves a single setting option
+   *
+   * @param group - Group ID
+   * @param id - Option ID (e.g. 'woocommerce_currency')
+   * @param options - Per-request options
+   * @returns Setting option object
+   */
+  async getOption<G extends string, K extends SettingsGroupOptionId<G>>(
+    group: G,
+    id: K,
+    options?: RequestOptions
+  ): Promise<WooCommerceSettingOption<SettingsGroupOptionValue<G, K>>> {
+    return super.get<WooCommerceSettingOption<SettingsGroupOptionValue<G, K>>>(
+      `settings/${group}/${id}`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Updates the value of a setting option
+   *
+   * @param group - Group ID
+   * @param id - Option ID
+   * @param value - New value
+   * @param options - Per-request options
+   * @returns Updated setting option
+   */
+  async updateOption<G extends string, K extends SettingsGroupOptionId<G>>(
+    group: G,
+    id: K,
+    value: SettingsGroupOptionValue<G, K>,
+    options?: RequestOptions
+  ): Promise<WooCommerceSettingOption<SettingsGroupOptionValue<G, K>>> {
+    return super.put<WooCommerceSettingOption<SettingsGroupOptionValue<G, K>>>(
+      `settings/${group}/${id}`,
+      { value },
+      options
+    )
+  }
+
+  /**
+   * Updates several options of a settings group in one request
+   *
+   * @param group - Group ID
+   * @param batch - Batch operation data
+   * @param options - Per-request options
+   * @returns Batch operation results
+   */
+  async batch<G extends string>(
+    group: G,
+    batch: BatchSettingOptionsRequest<G>,
+    options?: RequestOptions
+  ): Promise<BatchSettingOptionsResponse> {
+    return super.post<BatchSettingOptionsResponse>(`settings/${group}/batch`, batch, options)
+  }
+
+  /**
+   * Helper: Retrieves the option values of a settings group keyed by option ID
+   *
+   * @param group - Group ID
+   * @param options - Per-request options
+   * @returns Option values keyed by option ID
+   */
+  async getValues<G extends string>(
+    group: G,
+    options?: RequestOptions
+  ): Promise<SettingsGroupValues<G>> {
+    const settingOptions = await this.listOptions(group, options)
+    return Object.fromEntries(
+      settingOptions.map(option => [option.id, option.value])
+    ) as SettingsGroupValues<G>
+  }
+
+  /**
+   * Helper: Updates option values of a settings group with a single batch request
+   * Options left undefined are not sent
+   *
+   * @param group - Group ID
+   * @param values - Option values keyed by option ID
+   * @param options - Per-request options
+   * @returns Updated setting options
+   *
+   * @example
+   * ```typescript
+   * await woocommerce.settings.updateValues('general', {
+   *   woocommerce_currency: 'EUR',
+   *   woocommerce_price_num_decimals: '2',
+   * })
+   * await woocommerce.settings.updateValues('products', {
+   *   woocommerce_weight_unit: 'kg',
+   *   woocommerce_notify_low_stock_amount: '5',
+   * })
+   * ```
+   */
+  async updateValues<G extends string>(
+    group: G,
+    values: SettingsGroupValues<G>,
+    options?: RequestOptions
+  ): Promise<WooCommerceSettingOption[]> {
+    const update = Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([id, value]) => ({ id, value })) as BatchSettingOptionsRequest<G>['update']
+
+    if (update.length === 0) {
+      return []
+    }
+
+    const response = await this.batch(group, { update }, options)
+    return response.update
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Product Shipping Classes API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
+import type {
+  WooCommerceShippingClass,
+  CreateShippingClassRequest,
+  UpdateShippingClassRequest,
+  ListShippingClassesParams,
+  BatchShippingClassesRequest,
+  BatchShippingClassesResponse,
+} from '../types/shipping-classes'
+
+/**
+ * Client for managing product shipping classes
+ */
+export class ShippingClassesClient extends BaseClient {
+  /**
+   * Lists all product shipping classes
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Array of shipping classes
+   */
+  async list(
+    params?: ListShippingClassesParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingClass[]> {
+    return super.get<WooCommerceShippingClass[]>('products/shipping_classes', params, options)
+  }
+
+  /**
+   * Lists product shipping classes with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of shipping classes with pagination metadata
+   */
+  async listPage(
+    params?: ListShippingClassesParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceShippingClass>> {
+    return super.getPage<WooCommerceShippingClass>('products/shipping_classes', params, options)
+  }
+
+  /**
+   * Iterates over product shipping classes, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over shipping classes
+   */
+  iterate(
+    params?: ListShippingClassesParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceShippingClass, void, undefined> {
+    return super.paginate<WooCommerceShippingClass>('products/shipping_classes', params, options)
+  }
+
+  /**
+   * Retrieves all product shipping classes with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all shipping classes
+   */
+  async listAll(
+    params?: ListShippingClassesParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceShippingClass[]> {
+    return super.collectAll<WooCommerceShippingClass>('products/shipping_classes', params, options)
+  }
+
+  /**
+   * Retrieves a single shipping class by ID
+   *
+   * @param shippingClassId - Shipping class ID
+   * @param options - Per-request options
+   * @returns Shipping class object
+   */
+  async getShippingClass(
+    shippingClassId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingClass> {
+    return super.get<WooCommerceShippingClass>(
+      `products/shipping_classes/${shippingClassId}`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Creates a new shipping class
+   *
+   * @param shippingClass - Shipping class data
+   * @param options - Per-request options
+   * @returns Created shipping class
+   */
+  async create(
+    shippingClass: CreateShippingClassRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingClass> {
+    return super.post<WooCommerceShippingClass>('products/shipping_classes', shippingClass, options)
+  }
+
+  /**
+   * Updates an existing shipping class
+   *
+   * @param shippingClassId - Shipping class ID
+   * @param updates - Shipping class updates
+   * @param options - Per-request options
+   * @returns Updated shipping class
+   */
+  async update(
+    shippingClassId: number,
+    updates: UpdateShippingClassRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingClass> {
+    return super.put<WooCommerceShippingClass>(
+      `products/shipping_classes/${shippingClassId}`,
+      updates,
+      options
+    )
+  }
+
+  /**
+   * Deletes a shipping class
+   *
+   * @param shippingClassId - Shipping class ID
+   * @param force - Whether to permanently delete (shipping classes cannot be trashed, so WooCommerce requires true)
+   * @param options - Per-request options
+   * @returns Deleted shipping class
+   */
+  async deleteShippingClass(
+    shippingClassId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingClass> {
+    return super.delete<WooCommerceShippingClass>(
+      `products/shipping_classes/${shippingClassId}`,
+      { force },
+      options
+    )
+  }
+
+  /**
+   * Performs batch operations on shipping classes
+   *
+   * @param batch - Batch operation data
+   * @param options - Per-request options
+   * @returns Batch operation results
+   */
+  async batch(
+    batch: BatchShippingClassesRequest,
+    options?: RequestOptions
+  ): Promise<BatchShippingClassesResponse> {
+    return super.post<BatchShippingClassesResponse>(
+      'products/shipping_classes/batch',
+      batch,
+      options
+    )
+  }
+
+  /**
+   * Helper: Finds a shipping class by slug
+   *
+   * @param slug - Shipping class slug (as used in the product `shipping_class` field)
+   * @param options - Per-request options
+   * @returns Shipping class object or null if not found
+   */
+  async findBySlug(
+    slug: string,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingClass | null> {
+    const shippingClasses = await this.list({ slug, per_page: 1 }, options)
+    return shippingClasses[0] ?? null
+  }
+
+  /**
+   * Helper: Maps the slug of every shipping class to its ID with a single paginated listing
+   * Cheaper than `findBySlug` when resolving many slugs, e.g. during a catalog import
+   *
+   * @param options - Concurrency and per-request options
+   * @returns Shipping class IDs keyed by slug
+   */
+  async getIdsBySlug(options?: ListAllOptions): Promise<Map<string, number>> {
+    const shippingClasses = await this.listAll(undefined, options)
+    return new Map(shippingClasses.map(shippingClass => [shippingClass.slug, shippingClass.id]))
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Shipping API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type { RequestOptions } from '../types/common'
+import type {
+  WooCommerceShippingZone,
+  CreateShippingZoneRequest,
+  UpdateShippingZoneRequest,
+  ShippingZoneLocation,
+  ShippingZoneLocationInput,
+  WooCommerceShippingZoneMethod,
+  CreateShippingZoneMethodRequest,
+  UpdateShippingZoneMethodRequest,
+  WooCommerceShippingMethod,
+} from '../types/shipping'
+
+/**
+ * Client for managing shipping zones, their locations and methods, and available shipping methods
+ * The shipping endpoints are not paginated, every list is returned in one response
+ */
+export class ShippingClient extends BaseClient {
+  /**
+   * Lists all shipping zones
+   *
+   * @param options - Per-request options
+   * @returns Array of zones
+   */
+  async listZones(options?: RequestOptions): Promise<WooCommerceShippingZone[]> {
+    return super.get<WooCommerceShippingZone[]>('shipping/zones', undefined, options)
+  }
+
+  /**
+   * Retrieves a single zone by ID
+   *
+   * @param zoneId - Zone ID
+   * @param options - Per-request options
+   * @returns Zone object
+   */
+  async getZone(zoneId: number, options?: RequestOptions): Promise<WooCommerceShippingZone> {
+    return super.get<WooCommerceShippingZone>(`shipping/zones/${zoneId}`, undefined, options)
+  }
+
+  /**
+   * Creates a new zone
+   *
+   * @param zone - Zone data
+   * @param options - Per-request options
+   * @returns Created zone
+   */
+  async createZone(
+    zone: CreateShippingZoneRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZone> {
+    return super.post<WooCommerceShippingZone>('shipping/zones', zone, options)
+  }
+
+  /**
+   * Updates an existing zone
+   *
+   * @param zoneId - Zone ID
+   * @param updates - Zone updates
+   * @param options - Per-request options
+   * @returns Updated zone
+   */
+  async updateZone(
+    zoneId: number,
+    updates: UpdateShippingZoneRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZone> {
+    return super.put<WooCommerceShippingZone>(`shipping/zones/${zoneId}`, updates, options)
+  }
+
+  /**
+   * Deletes a zone along with its locations and methods
+   *
+   * @param zoneId - Zone ID
+   * @param force - Whether to permanently delete (zones cannot be trashed, so WooCommerce requires true)
+   * @param options - Per-request options
+   * @returns Deleted zone
+   */
+  async deleteZone(
+    zoneId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZone> {
+    return super.delete<WooCommerceShippingZone>(`shipping/zones/${zoneId}`, { force }, options)
+  }
+
+  /**
+   * Helper: Reorders zones by updating their sort order to match the given sequence
+   *
+   * @param zoneIds - Zone IDs in the desired matching order
+   * @param options - Per-request options
+   * @returns Updated zones
+   */
+  async reorderZones(
+    zoneIds: number[],
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZone[]> {
+    const zones: WooCommerceShippingZone[] = []
+    for (const [order, zoneId] of zoneIds.entries()) {
+      zones.push(await this.updateZone(zoneId, { order }, options))
+    }
+    return zones
+  }
+
+  /**
+   * Lists the locations of a zone
+   *
+   * @param zoneId - Zone ID
+   * @param options - Per-request options
+   * @returns Array of locations
+   */
+  async listZoneLocations(
+    zoneId: number,
+    options?: RequestOptions
+  ): Promise<ShippingZoneLocation[]> {
+    return super.get<ShippingZoneLocation[]>(
+      `shipping/zones/${zoneId}/locations`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Replaces all locations of a zone
+   *
+   * @param zoneId - Zone ID
+   * @param locations - New locations (an empty array removes every location)
+   * @param options - Per-request options
+   * @returns Locations of the zone
+   */
+  async updateZoneLocations(
+    zoneId: number,
+    locations: ShippingZoneLocationInput[],
+    options?: RequestOptions
+  ): Promise<ShippingZoneLocation[]> {
+    return super.put<ShippingZoneLocation[]>(
+      `shipping/zones/${zoneId}/locations`,
+      locations,
+      options
+    )
+  }
+
+  /**
+   * Helper: Adds locations to a zone, keeping the existing ones
+   * Locations already in the zone (same type and code) are not duplicated
+   *
+   * @param zoneId - Zone ID
+   * @param locations - Locations to add
+   * @param options - Per-request options
+   * @returns Locations of the zone
+   *
+   * @example
+   * ```typescript
+   * await woocommerce.shipping.upsertZoneLocations(zone.id, [
+   *   { type: 'country', code: 'CA' },
+   *   { type: 'state', code: 'US:NY' },
+   *   { type: 'postcode', code: '902*' },
+   * ])
+   * ```
+   */
+  async upsertZoneLocations(
+    zoneId: number,
+    locations: ShippingZoneLocationInput[],
+    options?: RequestOptions
+  ): Promise<ShippingZoneLocation[]> {
+    const existing = await this.listZoneLocations(zoneId, options)
+    const merged = new Map<string, ShippingZoneLocationInput>()
+    for (const { type, code } of [...existing, ...locations]) {
+      merged.set(`${type}:${code}`, { type, code })
+    }
+    return this.updateZoneLocations(zoneId, [...merged.values()], options)
+  }
+
+  /**
+   * Lists the shipping method instances of a zone
+   *
+   * @param zoneId - Zone ID
+   * @param options - Per-request options
+   * @returns Array of zone methods
+   */
+  async listZoneMethods(
+    zoneId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod[]> {
+    return super.get<WooCommerceShippingZoneMethod[]>(
+      `shipping/zones/${zoneId}/methods`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Retrieves a single shipping method instance of a zone
+   *
+   * @param zoneId - Zone ID
+   * @param instanceId - Method instance ID
+   * @param options - Per-request options
+   * @returns Zone method object, including its settings schema
+   */
+  async getZoneMethod(
+    zoneId: number,
+    instanceId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod> {
+    return super.get<WooCommerceShippingZoneMethod>(
+      `shipping/zones/${zoneId}/methods/${instanceId}`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Adds a shipping method to a zone
+   *
+   * @param zoneId - Zone ID
+   * @param method - Method ID and optional settings
+   * @param options - Per-request options
+   * @returns Created zone method
+   */
+  async createZoneMethod(
+    zoneId: number,
+    method: CreateShippingZoneMethodRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod> {
+    return super.post<WooCommerceShippingZoneMethod>(
+      `shipping/zones/${zoneId}/methods`,
+      method,
+      options
+    )
+  }
+
+  /**
+   * Updates a shipping method instance of a zone
+   *
+   * @param zoneId - Zone ID
+   * @param instanceId - Method instance ID
+   * @param updates - Zone method updates
+   * @param options - Per-request options
+   * @returns Updated zone method
+   */
+  async updateZoneMethod(
+    zoneId: number,
+    instanceId: number,
+    updates: UpdateShippingZoneMethodRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod> {
+    return super.put<WooCommerceShippingZoneMethod>(
+      `shipping/zones/${zoneId}/methods/${instanceId}`,
+      updates,
+      options
+    )
+  }
+
+  /**
+   * Removes a shipping method instance from a zone
+   *
+   * @param zoneId - Zone ID
+   * @param instanceId - Method instance ID
+   * @param force - Whether to permanently delete (methods cannot be trashed, so WooCommerce requires true)
+   * @param options - Per-request options
+   * @returns Deleted zone method
+   */
+  async deleteZoneMethod(
+    zoneId: number,
+    instanceId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod> {
+    return super.delete<WooCommerceShippingZoneMethod>(
+      `shipping/zones/${zoneId}/methods/${instanceId}`,
+      { force },
+      options
+    )
+  }
+
+  /**
+   * Helper: Enables a shipping method instance
+   *
+   * @param zoneId - Zone ID
+   * @param instanceId - Method instance ID
+   * @param options - Per-request options
+   * @returns Updated zone method
+   */
+  async enableZoneMethod(
+    zoneId: number,
+    instanceId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod> {
+    return this.updateZoneMethod(zoneId, instanceId, { enabled: true }, options)
+  }
+
+  /**
+   * Helper: Disables a shipping method instance
+   *
+   * @param zoneId - Zone ID
+   * @param instanceId - Method instance ID
+   * @param options - Per-request options
+   * @returns Updated zone method
+   */
+  async disableZoneMethod(
+    zoneId: number,
+    instanceId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod> {
+    return this.updateZoneMethod(zoneId, instanceId, { enabled: false }, options)
+  }
+
+  /**
+   * Helper: Reorders the shipping methods of a zone to match the given sequence
+   *
+   * @param zoneId - Zone ID
+   * @param instanceIds - Method instance IDs in the desired display order
+   * @param options - Per-request options
+   * @returns Updated zone methods
+   */
+  async reorderZoneMethods(
+    zoneId: number,
+    instanceIds: number[],
+    options?: RequestOptions
+  ): Promise<WooCommerceShippingZoneMethod[]> {
+    const methods: WooCommerceShippingZoneMethod[] = []
+    for (const [order, instanceId] of instanceIds.entries()) {
+      methods.push(await this.updateZoneMethod(zoneId, instanceId, { order }, options))
+    }
+    return methods
+  }
+
+  /**
+   * Lists the shipping methods that can be added to zones
+   *
+   * @param options - Per-request options
+   * @returns Array of shipping methods
+   */
+  async listMethods(options?: RequestOptions): Promise<WooCommerceShippingMethod[]> {
+    return super.get<WooCommerceShippingMethod[]>('shipping_methods', undefined, options)
+  }
+
+  /**
+   * Retrieves a single shipping method by ID
+   *
+   * @param methodId - Shipping method ID (e.g. 'flat_rate')
+   * @param options - Per-request options
+   * @returns Shipping method object
+   */
+  async getMethod(methodId: string, options?: RequestOptions): Promise<WooCommerceShippingMethod> {
+    return super.get<WooCommerceShippingMethod>(`shipping_methods/${methodId}`, undefined, options)
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * System Status API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type { RequestOptions } from '../types/common'
+import type {
+  WooCommerceSystemStatus,
+  WooCommerceSystemStatusTool,
+  SystemStatusToolId,
+  SystemStatusToolRunResult,
+} from '../types/system-status'
+
+/**
+ * Client for the system status report and the maintenance tools of a store
+ */
+export class SystemStatusClient extends BaseClient {
+  /**
+   * Retrieves the system status report
+   * The report is expensive to build, use `options.query._fields` to fetch only some sections
+   *
+   * @param options - Per-request options
+   * @returns System status report
+   *
+   * @example
+   * ```typescript
+   * const { environment, active_plugins } = await woocommerce.systemStatus.getStatus({
+   *   query: { _fields: 'environment,active_plugins' },
+   * })
+   * ```
+   */
+  async getStatus(options?: RequestOptions): Promise<WooCommerceSystemStatus> {
+    return super.get<WooCommerceSystemStatus>('system_status', undefined, options)
+  }
+
+  /**
+   * Lists the system status tools
+   *
+   * @param options - Per-request options
+   * @returns Array of tools
+   */
+  async listTools(options?: RequestOptions): Promise<WooCommerceSystemStatusTool[]> {
+    return super.get<WooCommerceSystemStatusTool[]>('system_status/tools', undefined, options)
+  }
+
+  /**
+   * Retrieves a single system status tool by ID
+   *
+   * @param toolId - Tool ID (e.g. 'clear_transients')
+   * @param options - Per-request options
+   * @returns Tool object
+   */
+  async getTool(
+    toolId: SystemStatusToolId,
+    options?: RequestOptions
+  ): Promise<WooCommerceSystemStatusTool> {
+    return super.get<WooCommerceSystemStatusTool>(
+      `system_status/tools/${toolId}`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Runs a system status tool
+   * A tool that fails still responds with 200, check `success` and `message` in the result
+   *
+   * @param toolId - Tool ID (e.g. 'clear_transients', 'regenerate_product_lookup_tables')
+   * @param options - Per-request options
+   * @returns Tool with the outcome of the run
+   *
+   * @example
+   * ```typescript
+   * const { success, message } = await woocommerce.systemStatus.runTool('clear_transients')
+   * ```
+   */
+  async runTool(
+    toolId: SystemStatusToolId,
+    options?: RequestOptions
+  ): Promise<SystemStatusToolRunResult> {
+    return super.put<SystemStatusToolRunResult>(`system_status/tools/${toolId}`, {}, options)
+  }
+}
@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceTag,
   CreateTagRequest,
@@ -20,30 +26,72 @@ export class TagsClient extends BaseClient {
    * Lists all product tags
    *
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of tags
    */
-  async list(params?: ListTagsParams): Promise<WooCommerceTag[]> {
-    return super.get<WooCommerceTag[]>('products/tags', params)
+  async list(params?: ListTagsParams, options?: RequestOptions): Promise<WooCommerceTag[]> {
+    return super.get<WooCommerceTag[]>('products/tags', params, options)
+  }
+
+  /**
+   * Lists product tags with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of tags with pagination metadata
+   */
+  async listPage(
+    params?: ListTagsParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceTag>> {
+    return super.getPage<WooCommerceTag>('products/tags', params, options)
+  }
+
+  /**
+   * Iterates over product tags, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over tags
+   */
+  iterate(
+    params?: ListTagsParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceTag, void, undefined> {
+    return super.paginate<WooCommerceTag>('products/tags', params, options)
+  }
+
+  /**
+   * Retrieves all product tags with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all tags
+   */
+  async listAll(params?: ListTagsParams, options?: ListAllOptions): Promise<WooCommerceTag[]> {
+    return super.collectAll<WooCommerceTag>('products/tags', params, options)
   }
 
   /**
    * Retrieves a single tag by ID
    *
    * @param tagId - Tag ID
+   * @param options - Per-request options
    * @returns Tag object
    */
-  async getTag(tagId: number): Promise<WooCommerceTag> {
-    return super.get<WooCommerceTag>(`products/tags/${tagId}`)
+  async getTag(tagId: number, options?: RequestOptions): Promise<WooCommerceTag> {
+    return super.get<WooCommerceTag>(`products/tags/${tagId}`, undefined, options)
   }
 
   /**
    * Creates a new tag
    *
    * @param tag - Tag data
+   * @param options - Per-request options
    * @returns Created tag
    */
-  async create(tag: CreateTagRequest): Promise<WooCommerceTag> {
-    return super.post<WooCommerceTag>('products/tags', tag)
+  async create(tag: CreateTagRequest, options?: RequestOptions): Promise<WooCommerceTag> {
+    return super.post<WooCommerceTag>('products/tags', tag, options)
   }
 
   /**
@@ -51,10 +99,15 @@ export class TagsClient extends BaseClient {
    *
    * @param tagId - Tag ID
    * @param updates - Tag updates
+   * @param options - Per-request options
    * @returns Updated tag
    */
-  async update(tagId: number, updates: UpdateTagRequest): Promise<WooCommerceTag> {
-    return super.put<WooCommerceTag>(`products/tags/${tagId}`, updates)
+  async update(
+    tagId: number,
+    updates: UpdateTagRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceTag> {
+    return super.put<WooCommerceTag>(`products/tags/${tagId}`, updates, options)
   }
 
   /**
@@ -62,19 +115,25 @@ export class TagsClient extends BaseClient {
    *
    * @param tagId - Tag ID
    * @param force - Whether to permanently delete
+   * @param options - Per-request options
    * @returns Deleted tag
    */
-  async deleteTag(tagId: number, force: boolean = false): Promise<WooCommerceTag> {
-    return super.delete<WooCommerceTag>(`products/tags/${tagId}`, { force })
+  async deleteTag(
+    tagId: number,
+    force: boolean = false,
+    options?: RequestOptions
+  ): Promise<WooCommerceTag> {
+    return super.delete<WooCommerceTag>(`products/tags/${tagId}`, { force }, options)
   }
 
   /**
    * Performs batch operations on tags
    *
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(batch: BatchTagsRequest): Promise<BatchTagsResponse> {
-    return super.post<BatchTagsResponse>('products/tags/batch', batch)
+  async batch(batch: BatchTagsRequest, options?: RequestOptions): Promise<BatchTagsResponse> {
+    return super.post<BatchTagsResponse>('products/tags/batch', batch, options)
   }
 }
@@ -0,0 +1,243 @@
+/**
+ * Taxes API client for WooCommerce REST API
+ */
+
+import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
+import type {
+  WooCommerceTaxRate,
+  CreateTaxRateRequest,
+  UpdateTaxRateRequest,
+  ListTaxRatesParams,
+  BatchTaxRatesRequest,
+  BatchTaxRatesResponse,
+  ImportTaxRatesOptions,
+  ImportTaxRatesResult,
+  WooCommerceTaxClass,
+  CreateTaxClassRequest,
+} from '../types/taxes'
+
+/**
+ * Client for managing tax rates and tax classes
+ */
+export class TaxesClient extends BaseClient {
+  /**
+   * Lists tax rates
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Array of tax rates
+   */
+  async list(params?: ListTaxRatesParams, options?: RequestOptions): Promise<WooCommerceTaxRate[]> {
+    return super.get<WooCommerceTaxRate[]>('taxes', params, options)
+  }
+
+  /**
+   * Lists tax rates with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of tax rates with pagination metadata
+   */
+  async listPage(
+    params?: ListTaxRatesParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceTaxRate>> {
+    return super.getPage<WooCommerceTaxRate>('taxes', params, options)
+  }
+
+  /**
+   * Iterates over tax rates, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over tax rates
+   */
+  iterate(
+    params?: ListTaxRatesParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceTaxRate, void, undefined> {
+    return super.paginate<WooCommerceTaxRate>('taxes', params, options)
+  }
+
+  /**
+   * Retrieves all tax rates with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all tax rates
+   */
+  async listAll(
+    params?: ListTaxRatesParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceTaxRate[]> {
+    return super.collectAll<WooCommerceTaxRate>('taxes', params, options)
+  }
+
+  /**
+   * Retrieves a single tax rate by ID
+   *
+   * @param rateId - Tax rate ID
+   * @param options - Per-request options
+   * @returns Tax rate object
+   */
+  async getRate(rateId: number, options?: RequestOptions): Promise<WooCommerceTaxRate> {
+    return super.get<WooCommerceTaxRate>(`taxes/${rateId}`, undefined, options)
+  }
+
+  /**
+   * Creates a new tax rate
+   *
+   * @param rate - Tax rate data
+   * @param options - Per-request options
+   * @returns Created tax rate
+   */
+  async create(rate: CreateTaxRateRequest, options?: RequestOptions): Promise<WooCommerceTaxRate> {
+    return super.post<WooCommerceTaxRate>('taxes', rate, options)
+  }
+
+  /**
+   * Updates an existing tax rate
+   *
+   * @param rateId - Tax rate ID
+   * @param updates - Tax rate updates
+   * @param options - Per-request options
+   * @returns Updated tax rate
+   */
+  async update(
+    rateId: number,
+    updates: UpdateTaxRateRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceTaxRate> {
+    return super.put<WooCommerceTaxRate>(`taxes/${rateId}`, updates, options)
+  }
+
+  /**
+   * Deletes a tax rate
+   *
+   * @param rateId - Tax rate ID
+   * @param force - Whether to permanently delete (rates cannot be trashed, so WooCommerce requires true)
+   * @param options - Per-request options
+   * @returns Deleted tax rate
+   */
+  async deleteRate(
+    rateId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceTaxRate> {
+    return super.delete<WooCommerceTaxRate>(`taxes/${rateId}`, { force }, options)
+  }
+
+  /**
+   * Performs batch operations on tax rates
+   *
+   * @param batch - Batch operation data
+   * @param options - Per-request options
+   * @returns Batch operation results
+   */
+  async batch(
+    batch: BatchTaxRatesRequest,
+    options?: RequestOptions
+  ): Promise<BatchTaxRatesResponse> {
+    return super.post<BatchTaxRatesResponse>('taxes/batch', batch, options)
+  }
+
+  /**
+   * Helper: Imports a tax rate table
+   * Automatically handles splitting into batches of 100 items (WooCommerce limit)
+   *
+   * @param rates - Tax rates to create
+   * @param options - Import and per-request options
+   * @returns Created rates and, with `replace`, the IDs of the deleted rates
+   *
+   * @example
+   * ```typescript
+   * await woocommerce.taxes.importRates(
+   *   [
+   *     { country: 'DE', rate: '19.0000', name: 'MwSt', shipping: true },
+   *     { country: 'FR', rate: '20.0000', name: 'TVA', shipping: true },
+   *     { country: 'FR', rate: '5.5000', name: 'TVA', class: 'reduced-rate' },
+   *   ],
+   *   { replace: true }
+   * )
+   * ```
+   */
+  async importRates(
+    rates: CreateTaxRateRequest[],
+    options: ImportTaxRatesOptions = {}
+  ): Promise<ImportTaxRatesResult> {
+    const { replace = false, ...requestOptions } = options
+    const result: ImportTaxRatesResult = { created: [], deleted: [] }
+
+    // WooCommerce batch API accepts max 100 items
+    const BATCH_SIZE = 100
+
+    if (replace) {
+      const classes = new Set(rates.map(rate => rate.class || 'standard'))
+      for (const taxClass of classes) {
+        const existing = await this.listAll({ class: taxClass }, requestOptions)
+        result.deleted.push(...existing.map(rate => rate.id))
+      }
+
+      for (let i = 0; i < result.deleted.length; i += BATCH_SIZE) {
+        await this.batch({ delete: result.deleted.slice(i, i + BATCH_SIZE) }, requestOptions)
+      }
+    }
+
+    for (let i = 0; i < rates.length; i += BATCH_SIZE) {
+      const response = await this.batch({ create: rates.slice(i, i + BATCH_SIZE) }, requestOptions)
+      result.created.push(...(response.create ?? []))
+    }
+
+    return result
+  }
+
+  /**
+   * Lists all tax classes
+   *
+   * @param options - Per-request options
+   * @returns Array of tax classes
+   */
+  async listClasses(options?: RequestOptions): Promise<WooCommerceTaxClass[]> {
+    return super.get<WooCommerceTaxClass[]>('taxes/classes', undefined, options)
+  }
+
+  /**
+   * Creates a new tax class
+   *
+   * @param taxClass - Tax class data
+   * @param options - Per-request options
+   * @returns Created tax class
+   */
+  async createClass(
+    taxClass: CreateTaxClassRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceTaxClass> {
+    return super.post<WooCommerceTaxClass>('taxes/classes', taxClass, options)
+  }
+
+  /**
+   * Deletes a tax class along with its rates
+   *
+   * @param slug - Tax class slug
+   * @param force - Whether to permanently delete (classes cannot be trashed, so WooCommerce requires true)
+   * @param options - Per-request options
+   * @returns Deleted tax class
+   */
+  async deleteClass(
+    slug: string,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceTaxClass> {
+    return super.delete<WooCommerceTaxClass>(
+      `taxes/classes/${encodeURIComponent(slug)}`,
+      { force },
+      options
+    )
+  }
+}
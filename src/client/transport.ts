@@ -0,0 +1,40 @@
+/**
+ * Default fetch-based transport for WooCommerce API requests
+ */
+
+import type { FetchLike, WooCommerceTransport } from '../types/transport'
+
+/**
+ * Creates a transport backed by a fetch implementation
+ *
+ * @param fetchImpl - Fetch implementation (default: global `fetch`, resolved on each request)
+ * @param fetchOptions - Extra options merged into every fetch call (e.g. an undici `dispatcher`)
+ * @returns Fetch transport
+ *
+ * @example
+ * ```typescript
+ * import { Agent, fetch } from 'undici'
+ *
+ * const transport = createFetchTransport(fetch as FetchLike, {
+ *   dispatcher: new Agent({ keepAliveTimeout: 30000, connections: 10 }),
+ * })
+ * ```
+ */
+export function createFetchTransport(
+  fetchImpl?: FetchLike,
+  fetchOptions: Record<string, unknown> = {}
+): WooCommerceTransport {
+  return {
+    send: request => {
+      const fetchFn: FetchLike = fetchImpl ?? ((input, init) => fetch(input, init))
+
+      return fetchFn(request.url, {
+        ...fetchOptions,
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      })
+    },
+  }
+}
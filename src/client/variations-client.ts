@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceVariation,
   CreateVariationRequest,
@@ -21,10 +27,67 @@ export class VariationsClient extends BaseClient {
    *
    * @param productId - Parent product ID
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of variations
    */
-  async list(productId: number, params?: ListVariationsParams): Promise<WooCommerceVariation[]> {
-    return super.get<WooCommerceVariation[]>(`products/${productId}/variations`, params)
+  async list(
+    productId: number,
+    params?: ListVariationsParams,
+    options?: RequestOptions
+  ): Promise<WooCommerceVariation[]> {
+    return super.get<WooCommerceVariation[]>(`products/${productId}/variations`, params, options)
+  }
+
+  /**
+   * Lists variations for a product with pagination metadata
+   *
+   * @param productId - Parent product ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of variations with pagination metadata
+   */
+  async listPage(
+    productId: number,
+    params?: ListVariationsParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceVariation>> {
+    return super.getPage<WooCommerceVariation>(`products/${productId}/variations`, params, options)
+  }
+
+  /**
+   * Iterates over variations for a product, fetching one page at a time
+   *
+   * @param productId - Parent product ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over variations
+   */
+  iterate(
+    productId: number,
+    params?: ListVariationsParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceVariation, void, undefined> {
+    return super.paginate<WooCommerceVariation>(`products/${productId}/variations`, params, options)
+  }
+
+  /**
+   * Retrieves all variations for a product with automatic pagination
+   *
+   * @param productId - Parent product ID
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all variations
+   */
+  async listAll(
+    productId: number,
+    params?: ListVariationsParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceVariation[]> {
+    return super.collectAll<WooCommerceVariation>(
+      `products/${productId}/variations`,
+      params,
+      options
+    )
   }
 
   /**
@@ -32,10 +95,19 @@ export class VariationsClient extends BaseClient {
    *
    * @param productId - Parent product ID
    * @param variationId - Variation ID
+   * @param options - Per-request options
    * @returns Variation object
    */
-  async getVariation(productId: number, variationId: number): Promise<WooCommerceVariation> {
-    return super.get<WooCommerceVariation>(`products/${productId}/variations/${variationId}`)
+  async getVariation(
+    productId: number,
+    variationId: number,
+    options?: RequestOptions
+  ): Promise<WooCommerceVariation> {
+    return super.get<WooCommerceVariation>(
+      `products/${productId}/variations/${variationId}`,
+      undefined,
+      options
+    )
   }
 
   /**
@@ -43,13 +115,15 @@ export class VariationsClient extends BaseClient {
    *
    * @param productId - Parent product ID
    * @param variation - Variation data
+   * @param options - Per-request options
    * @returns Created variation
    */
   async create(
     productId: number,
-    variation: CreateVariationRequest
+    variation: CreateVariationRequest,
+    options?: RequestOptions
   ): Promise<WooCommerceVariation> {
-    return super.post<WooCommerceVariation>(`products/${productId}/variations`, variation)
+    return super.post<WooCommerceVariation>(`products/${productId}/variations`, variation, options)
   }
 
   /**
@@ -58,16 +132,19 @@ export class VariationsClient extends BaseClient {
    * @param productId - Parent product ID
    * @param variationId - Variation ID
    * @param updates - Variation updates
+   * @param options - Per-request options
    * @returns Updated variation
    */
   async update(
     productId: number,
     variationId: number,
-    updates: UpdateVariationRequest
+    updates: UpdateVariationRequest,
+    options?: RequestOptions
   ): Promise<WooCommerceVariation> {
     return super.put<WooCommerceVariation>(
       `products/${productId}/variations/${variationId}`,
-      updates
+      updates,
+      options
     )
   }
 
@@ -77,16 +154,22 @@ export class VariationsClient extends BaseClient {
    * @param productId - Parent product ID
    * @param variationId - Variation ID
    * @param force - Whether to permanently delete
+   * @param options - Per-request options
    * @returns Deleted variation
    */
   async deleteVariation(
     productId: number,
     variationId: number,
-    force: boolean = false
+    force: boolean = false,
+    options?: RequestOptions
   ): Promise<WooCommerceVariation> {
-    return super.delete<WooCommerceVariation>(`products/${productId}/variations/${variationId}`, {
-      force,
-    })
+    return super.delete<WooCommerceVariation>(
+      `products/${productId}/variations/${variationId}`,
+      {
+        force,
+      },
+      options
+    )
   }
 
   /**
@@ -94,9 +177,18 @@ export class VariationsClient extends BaseClient {
    *
    * @param productId - Parent product ID
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(productId: number, batch: BatchVariationsRequest): Promise<BatchVariationsResponse> {
-    return super.post<BatchVariationsResponse>(`products/${productId}/variations/batch`, batch)
+  async batch(
+    productId: number,
+    batch: BatchVariationsRequest,
+    options?: RequestOptions
+  ): Promise<BatchVariationsResponse> {
+    return super.post<BatchVariationsResponse>(
+      `products/${productId}/variations/batch`,
+      batch,
+      options
+    )
   }
 }
@@ -3,6 +3,12 @@
  */
 
 import { BaseClient } from './base-client'
+import type {
+  IterateOptions,
+  ListAllOptions,
+  RequestOptions,
+  WooCommercePaginatedResponse,
+} from '../types/common'
 import type {
   WooCommerceWebhook,
   CreateWebhookRequest,
@@ -11,7 +17,87 @@ import type {
   BatchWebhooksRequest,
   BatchWebhooksResponse,
   WebhookDelivery,
+  DesiredWebhook,
+  EnsureWebhooksOptions,
+  EnsureWebhooksResult,
+  WebhookReconcilePlan,
+  FailedWebhookDelivery,
+  FindFailedDeliveriesOptions,
 } from '../types/webhooks'
+import { mapWithConcurrency } from '../utils'
+
+/**
+ * Parses a GMT date returned by WooCommerce (no timezone designator) into a timestamp
+ *
+ * @param date - GMT date string
+ * @returns Milliseconds since the epoch
+ */
+function parseGmtDate(date: string): number {
+  return Date.parse(/(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(date) ? date : `${date}Z`)
+}
+
+/**
+ * Diffs existing webhooks against the desired subscriptions
+ *
+ * @param existing - Webhooks on the store
+ * @param desired - Desired subscriptions
+ * @param prune - Which unmatched webhooks may be deleted
+ * @returns Reconciliation plan
+ */
+function planWebhooks(
+  existing: WooCommerceWebhook[],
+  desired: DesiredWebhook[],
+  prune: NonNullable<EnsureWebhooksOptions['prune']>
+): WebhookReconcilePlan {
+  const plan: WebhookReconcilePlan = { create: [], update: [], delete: [], unchanged: [] }
+  const key = (webhook: { topic: string; delivery_url: string }) =>
+    `${webhook.topic} ${webhook.delivery_url}`
+  const desiredKeys = new Set(desired.map(key))
+  const matched = new Set<number>()
+
+  for (const want of desired) {
+    const status = want.status ?? 'active'
+    const current = existing.find(webhook => !matched.has(webhook.id) && key(webhook) === key(want))
+
+    if (!current) {
+      plan.create.push({ ...want, status })
+      continue
+    }
+
+    matched.add(current.id)
+    const changes: Partial<DesiredWebhook> = {}
+
+    if (current.name !== want.name) changes.name = want.name
+    if (current.status !== status) changes.status = status
+    if (
+      want.secret !== undefined &&
+      current.secret !== undefined &&
+      current.secret !== want.secret
+    ) {
+      changes.secret = want.secret
+    }
+    if (want.hooks && want.hooks.join() !== (current.hooks ?? []).join()) {
+      changes.hooks = want.hooks
+    }
+
+    if (Object.keys(changes).length > 0) {
+      plan.update.push({ id: current.id, ...changes })
+    } else {
+      plan.unchanged.push(current.id)
+    }
+  }
+
+  for (const webhook of existing) {
+    if (matched.has(webhook.id)) continue
+
+    const isDuplicate = desiredKeys.has(key(webhook))
+    if (isDuplicate || prune === true || (typeof prune === 'function' && prune(webhook))) {
+      plan.delete.push(webhook.id)
+    }
+  }
+
+  return plan
+}
 
 /**
  * Client for managing webhooks
@@ -21,30 +107,78 @@ export class WebhooksClient extends BaseClient {
    * Lists all webhooks
    *
    * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
    * @returns Array of webhooks
    */
-  async list(params?: ListWebhooksParams): Promise<WooCommerceWebhook[]> {
-    return super.get<WooCommerceWebhook[]>('webhooks', params)
+  async list(params?: ListWebhooksParams, options?: RequestOptions): Promise<WooCommerceWebhook[]> {
+    return super.get<WooCommerceWebhook[]>('webhooks', params, options)
+  }
+
+  /**
+   * Lists webhooks with pagination metadata
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Per-request options
+   * @returns Page of webhooks with pagination metadata
+   */
+  async listPage(
+    params?: ListWebhooksParams,
+    options?: RequestOptions
+  ): Promise<WooCommercePaginatedResponse<WooCommerceWebhook>> {
+    return super.getPage<WooCommerceWebhook>('webhooks', params, options)
+  }
+
+  /**
+   * Iterates over webhooks, fetching one page at a time
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Iteration and per-request options (e.g. maxItems, signal)
+   * @returns Async iterator over webhooks
+   */
+  iterate(
+    params?: ListWebhooksParams,
+    options?: IterateOptions
+  ): AsyncGenerator<WooCommerceWebhook, void, undefined> {
+    return super.paginate<WooCommerceWebhook>('webhooks', params, options)
+  }
+
+  /**
+   * Retrieves all webhooks with automatic pagination
+   *
+   * @param params - Query parameters for filtering and pagination
+   * @param options - Concurrency and per-request options
+   * @returns Array of all webhooks
+   */
+  async listAll(
+    params?: ListWebhooksParams,
+    options?: ListAllOptions
+  ): Promise<WooCommerceWebhook[]> {
+    return super.collectAll<WooCommerceWebhook>('webhooks', params, options)
   }
 
   /**
    * Retrieves a single webhook by ID
    *
    * @param webhookId - Webhook ID
+   * @param options - Per-request options
    * @returns Webhook object
    */
-  async getWebhook(webhookId: number): Promise<WooCommerceWebhook> {
-    return super.get<WooCommerceWebhook>(`webhooks/${webhookId}`)
+  async getWebhook(webhookId: number, options?: RequestOptions): Promise<WooCommerceWebhook> {
+    return super.get<WooCommerceWebhook>(`webhooks/${webhookId}`, undefined, options)
   }
 
   /**
    * Creates a new webhook
    *
    * @param webhook - Webhook data
+   * @param options - Per-request options
    * @returns Created webhook
    */
-  async create(webhook: CreateWebhookRequest): Promise<WooCommerceWebhook> {
-    return super.post<WooCommerceWebhook>('webhooks', webhook)
+  async create(
+    webhook: CreateWebhookRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceWebhook> {
+    return super.post<WooCommerceWebhook>('webhooks', webhook, options)
   }
 
   /**
@@ -52,10 +186,15 @@ export class WebhooksClient extends BaseClient {
    *
    * @param webhookId - Webhook ID
    * @param updates - Webhook updates
+   * @param options - Per-request options
    * @returns Updated webhook
    */
-  async update(webhookId: number, updates: UpdateWebhookRequest): Promise<WooCommerceWebhook> {
-    return super.put<WooCommerceWebhook>(`webhooks/${webhookId}`, updates)
+  async update(
+    webhookId: number,
+    updates: UpdateWebhookRequest,
+    options?: RequestOptions
+  ): Promise<WooCommerceWebhook> {
+    return super.put<WooCommerceWebhook>(`webhooks/${webhookId}`, updates, options)
   }
 
   /**
@@ -63,30 +202,40 @@ export class WebhooksClient extends BaseClient {
    *
    * @param webhookId - Webhook ID
    * @param force - Whether to permanently delete
+   * @param options - Per-request options
    * @returns Deleted webhook
    */
-  async deleteWebhook(webhookId: number, force: boolean = true): Promise<WooCommerceWebhook> {
-    return super.delete<WooCommerceWebhook>(`webhooks/${webhookId}`, { force })
+  async deleteWebhook(
+    webhookId: number,
+    force: boolean = true,
+    options?: RequestOptions
+  ): Promise<WooCommerceWebhook> {
+    return super.delete<WooCommerceWebhook>(`webhooks/${webhookId}`, { force }, options)
   }
 
   /**
    * Performs batch operations on webhooks
    *
    * @param batch - Batch operation data
+   * @param options - Per-request options
    * @returns Batch operation results
    */
-  async batch(batch: BatchWebhooksRequest): Promise<BatchWebhooksResponse> {
-    return super.post<BatchWebhooksResponse>('webhooks/batch', batch)
+  async batch(
+    batch: BatchWebhooksRequest,
+    options?: RequestOptions
+  ): Promise<BatchWebhooksResponse> {
+    return super.post<BatchWebhooksResponse>('webhooks/batch', batch, options)
   }
 
   /**
    * Lists all deliveries for a webhook
    *
    * @param webhookId - Webhook ID
+   * @param options - Per-request options
    * @returns Array of webhook deliveries
    */
-  async listDeliveries(webhookId: number): Promise<WebhookDelivery[]> {
-    return super.get<WebhookDelivery[]>(`webhooks/${webhookId}/deliveries`)
+  async listDeliveries(webhookId: number, options?: RequestOptions): Promise<WebhookDelivery[]> {
+    return super.get<WebhookDelivery[]>(`webhooks/${webhookId}/deliveries`, undefined, options)
   }
 
   /**
@@ -94,9 +243,108 @@ export class WebhooksClient extends BaseClient {
    *
    * @param webhookId - Webhook ID
    * @param deliveryId - Delivery ID
+   * @param options - Per-request options
    * @returns Webhook delivery
    */
-  async getDelivery(webhookId: number, deliveryId: number): Promise<WebhookDelivery> {
-    return super.get<WebhookDelivery>(`webhooks/${webhookId}/deliveries/${deliveryId}`)
+  async getDelivery(
+    webhookId: number,
+    deliveryId: number,
+    options?: RequestOptions
+  ): Promise<WebhookDelivery> {
+    return super.get<WebhookDelivery>(
+      `webhooks/${webhookId}/deliveries/${deliveryId}`,
+      undefined,
+      options
+    )
+  }
+
+  /**
+   * Reconciles the store webhooks with the desired subscriptions
+   * Creates missing webhooks, updates drifted ones (reactivating webhooks disabled after
+   * delivery failures) and deletes duplicates, then applies the plan in a single batch call
+   *
+   * @param desired - Desired subscriptions, matched by topic and delivery URL
+   * @param options - Dry run, prune and per-request options
+   * @returns Reconciliation plan and batch result
+   *
+   * @example
+   * ```typescript
+   * const { plan } = await woocommerce.webhooks.ensure(
+   *   [{ name: 'Orders', topic: 'order.created', delivery_url: url, secret }],
+   *   { prune: webhook => webhook.delivery_url.startsWith('https://hooks.example.com/') }
+   * )
+   * ```
+   */
+  async ensure(
+    desired: DesiredWebhook[],
+    options: EnsureWebhooksOptions = {}
+  ): Promise<EnsureWebhooksResult> {
+    const { dryRun = false, prune = false, ...requestOptions } = options
+
+    // The edit context includes the secret, so rotated secrets can be detected
+    const existing = await this.listAll({ context: 'edit' }, requestOptions)
+    const plan = planWebhooks(existing, desired, prune)
+
+    if (dryRun || plan.create.length + plan.update.length + plan.delete.length === 0) {
+      return { plan, applied: false }
+    }
+
+    const result = await this.batch(
+      {
+        ...(plan.create.length > 0 && { create: plan.create }),
+        ...(plan.update.length > 0 && { update: plan.update }),
+        ...(plan.delete.length > 0 && { delete: plan.delete }),
+      },
+      requestOptions
+    )
+
+    return { plan, applied: true, result }
+  }
+
+  /**
+   * Finds failed deliveries (non-2xx response code) across webhooks in a time window
+   *
+   * @param options - Time window, webhook filter, concurrency and per-request options
+   * @returns Failed deliveries with their webhook, oldest first
+   *
+   * @example
+   * ```typescript
+   * const failed = await woocommerce.webhooks.findFailedDeliveries({
+   *   after: '2024-05-01T10:00:00Z',
+   *   before: new Date(),
+   * })
+   * await replayWebhookDeliveries(failed, { secret, target: 'https://hooks.example.com/wc' })
+   * ```
+   */
+  async findFailedDeliveries(
+    options: FindFailedDeliveriesOptions = {}
+  ): Promise<FailedWebhookDelivery[]> {
+    const { after, before, webhookIds, concurrency = 1, ...requestOptions } = options
+    const from = after !== undefined ? new Date(after).getTime() : -Infinity
+    const to = before !== undefined ? new Date(before).getTime() : Infinity
+
+    const webhooks = await this.listAll(
+      webhookIds ? { include: webhookIds } : undefined,
+      requestOptions
+    )
+
+    const failed = await mapWithConcurrency(webhooks, concurrency, async webhook => {
+      const deliveries = await this.listDeliveries(webhook.id, requestOptions)
+
+      return deliveries
+        .filter(delivery => {
+          const code = Number(delivery.response_code)
+          const loggedAt = parseGmtDate(delivery.date_created_gmt)
+          return !(code >= 200 && code < 300) && loggedAt >= from && loggedAt < to
+        })
+        .map(delivery => ({ webhook, delivery }))
+    })
+
+    return failed
+      .flat()
+      .sort(
+        (a, b) =>
+          parseGmtDate(a.delivery.date_created_gmt) - parseGmtDate(b.delivery.date_created_gmt)
+      )
   }
 }
@@ -3,6 +3,7 @@
  */
 
 import type { WooCommerceErrorResponse } from './types/common'
+import type { WebhookErrorReason } from './types/webhooks'
 
 /**
  * Base error class for all WooCommerce SDK errors
@@ -120,3 +121,19 @@ export class WooCommerceAPIError extends WooCommerceError {
     Object.setPrototypeOf(this, WooCommerceAPIError.prototype)
   }
 }
+
+/**
+ * Error thrown when an incoming webhook delivery cannot be verified or parsed
+ * `statusCode` is the HTTP status the receiver should respond with
+ */
+export class WooCommerceWebhookError extends WooCommerceError {
+  constructor(
+    message: string = 'Invalid webhook request',
+    public readonly reason: WebhookErrorReason = 'invalid_signature',
+    statusCode: number = 401
+  ) {
+    super(message, statusCode)
+    this.name = 'WooCommerceWebhookError'
+    Object.setPrototypeOf(this, WooCommerceWebhookError.prototype)
+  }
+}
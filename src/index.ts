@@ -43,7 +43,21 @@ export {
   VariationsClient,
   CategoriesClient,
   TagsClient,
+  AttributesClient,
+  AttributeTermsClient,
+  ReviewsClient,
+  ShippingClassesClient,
   RefundsClient,
+  ShippingClient,
+  TaxesClient,
+  PaymentGatewaysClient,
+  SettingsClient,
+  SystemStatusClient,
+  ReportsClient,
+  RateLimiter,
+  createFetchTransport,
+  signOAuthRequest,
+  toAuthorizationHeader,
 } from './client'
 
 // Type definitions
@@ -59,7 +73,35 @@ export {
   WooCommerceRateLimitError,
   WooCommerceNetworkError,
   WooCommerceAPIError,
+  WooCommerceWebhookError,
 } from './errors'
 
+// Webhook receiving
+export {
+  computeWebhookSignature,
+  verifyWebhookSignature,
+  getWebhookHeader,
+  parseWebhookPing,
+  parseWebhookRequest,
+  WebhookRouter,
+  handleWebhookRequest,
+  createNodeWebhookHandler,
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+  buildReplayRequest,
+  replayWebhookDelivery,
+  replayWebhookDeliveries,
+} from './webhooks'
+
 // Utility functions
-export { buildQueryString, sleep, retryWithBackoff, normalizeUrl } from './utils'
+export {
+  buildQueryString,
+  sleep,
+  retryWithBackoff,
+  calculateBackoffDelay,
+  mapWithConcurrency,
+  parseRetryAfter,
+  normalizeUrl,
+  parsePaginationHeaders,
+  parseLinkHeader,
+} from './utils'
@@ -0,0 +1,273 @@
+/**
+ * Product Attribute and Attribute Term types and interfaces for WooCommerce REST API
+ */
+
+import type { Links, ListParams } from './common'
+
+/**
+ * Sort order of the terms of an attribute on the storefront
+ * Options: 'menu_order' (custom ordering), 'name', 'name_num' (numeric name), 'id'
+ */
+export type AttributeOrderBy = 'menu_order' | 'name' | 'name_num' | 'id'
+
+/**
+ * Complete WooCommerce global Product Attribute entity
+ */
+export interface WooCommerceAttribute {
+  /**
+   * Unique attribute ID (read-only)
+   */
+  id: number
+
+  /**
+   * Attribute name
+   */
+  name: string
+
+  /**
+   * Attribute slug, prefixed with `pa_` (e.g. 'pa_color')
+   */
+  slug: string
+
+  /**
+   * Attribute type (WooCommerce core only defines 'select', extensions may add others)
+   */
+  type: string
+
+  /**
+   * Default sort order of the attribute terms
+   */
+  order_by: AttributeOrderBy
+
+  /**
+   * Whether the attribute has a public archive page
+   */
+  has_archives: boolean
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Attribute creation request
+ */
+export interface CreateAttributeRequest {
+  /**
+   * Attribute name (required)
+   */
+  name: string
+
+  /**
+   * Attribute slug
+   */
+  slug?: string
+
+  /**
+   * Attribute type (default: 'select')
+   */
+  type?: string
+
+  /**
+   * Default sort order of the attribute terms (default: 'menu_order')
+   */
+  order_by?: AttributeOrderBy
+
+  /**
+   * Whether the attribute has a public archive page (default: false)
+   */
+  has_archives?: boolean
+}
+
+/**
+ * Attribute update request (all fields optional)
+ */
+export type UpdateAttributeRequest = Partial<CreateAttributeRequest>
+
+/**
+ * Attribute list query parameters
+ * The attributes endpoint is not paginated and only supports the request context
+ */
+export interface ListAttributesParams {
+  /**
+   * Scope under which the request is made (default: 'view')
+   */
+  context?: 'view' | 'edit'
+}
+
+/**
+ * Batch attribute operation
+ */
+export interface BatchAttributesRequest {
+  /**
+   * Attributes to create
+   */
+  create?: CreateAttributeRequest[]
+
+  /**
+   * Attributes to update (must include ID)
+   */
+  update?: Array<UpdateAttributeRequest & { id: number }>
+
+  /**
+   * Attribute IDs to delete
+   */
+  delete?: number[]
+}
+
+/**
+ * Batch attribute operation response
+ */
+export interface BatchAttributesResponse {
+  /**
+   * Created attributes
+   */
+  create: WooCommerceAttribute[]
+
+  /**
+   * Updated attributes
+   */
+  update: WooCommerceAttribute[]
+
+  /**
+   * Deleted attributes
+   */
+  delete: WooCommerceAttribute[]
+}
+
+/**
+ * Complete WooCommerce Product Attribute Term entity
+ */
+export interface WooCommerceAttributeTerm {
+  /**
+   * Unique term ID (read-only)
+   */
+  id: number
+
+  /**
+   * Term name
+   */
+  name: string
+
+  /**
+   * Term slug
+   */
+  slug: string
+
+  /**
+   * Term description
+   */
+  description: string
+
+  /**
+   * Custom sort position, used when the attribute is ordered by 'menu_order'
+   */
+  menu_order: number
+
+  /**
+   * Number of published products with this term (read-only)
+   */
+  count: number
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Attribute term creation request
+ */
+export interface CreateAttributeTermRequest {
+  /**
+   * Term name (required)
+   */
+  name: string
+
+  /**
+   * Term slug
+   */
+  slug?: string
+
+  /**
+   * Term description
+   */
+  description?: string
+
+  /**
+   * Custom sort position
+   */
+  menu_order?: number
+}
+
+/**
+ * Attribute term update request (all fields optional)
+ */
+export type UpdateAttributeTermRequest = Partial<CreateAttributeTermRequest>
+
+/**
+ * Attribute term list query parameters
+ */
+export interface ListAttributeTermsParams extends ListParams {
+  /**
+   * Limit result set to terms with no products
+   */
+  hide_empty?: boolean
+
+  /**
+   * Limit result set to terms assigned a specific product
+   */
+  product?: number
+
+  /**
+   * Limit result set to terms assigned a specific slug
+   */
+  slug?: string
+
+  /**
+   * Sort by attribute
+   * Options: 'id', 'include', 'name', 'slug', 'term_group', 'description', 'count'
+   */
+  orderby?: 'id' | 'include' | 'name' | 'slug' | 'term_group' | 'description' | 'count'
+}
+
+/**
+ * Batch attribute term operation
+ */
+export interface BatchAttributeTermsRequest {
+  /**
+   * Terms to create
+   */
+  create?: CreateAttributeTermRequest[]
+
+  /**
+   * Terms to update (must include ID)
+   */
+  update?: Array<UpdateAttributeTermRequest & { id: number }>
+
+  /**
+   * Term IDs to delete
+   */
+  delete?: number[]
+}
+
+/**
+ * Batch attribute term operation response
+ */
+export interface BatchAttributeTermsResponse {
+  /**
+   * Created terms
+   */
+  create: WooCommerceAttributeTerm[]
+
+  /**
+   * Updated terms
+   */
+  update: WooCommerceAttributeTerm[]
+
+  /**
+   * Deleted terms
+   */
+  delete: WooCommerceAttributeTerm[]
+}
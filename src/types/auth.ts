@@ -0,0 +1,110 @@
+/**
+ * Authentication strategy types
+ */
+
+import type { OAuthConfig } from './common'
+
+/**
+ * Consumer key/secret sent as `consumer_key` and `consumer_secret` query parameters
+ * HTTPS only; the credentials appear in server and proxy logs
+ */
+export interface QueryStringAuth {
+  type: 'query'
+  consumerKey: string
+  consumerSecret: string
+}
+
+/**
+ * Consumer key/secret used to sign each request with OAuth 1.0a
+ */
+export interface OAuth1Auth extends OAuthConfig {
+  type: 'oauth1'
+  consumerKey: string
+  consumerSecret: string
+}
+
+/**
+ * Consumer key/secret sent in an HTTP Basic `Authorization` header (HTTPS only)
+ */
+export interface BasicAuth {
+  type: 'basic'
+  consumerKey: string
+  consumerSecret: string
+}
+
+/**
+ * WordPress Application Password sent in an HTTP Basic `Authorization` header
+ */
+export interface ApplicationPasswordAuth {
+  type: 'application-password'
+
+  /**
+   * WordPress username
+   */
+  username: string
+
+  /**
+   * Application password (spaces are allowed)
+   */
+  password: string
+}
+
+/**
+ * Bearer token (e.g. a JWT) sent in the `Authorization` header
+ */
+export interface BearerAuth {
+  type: 'bearer'
+
+  /**
+   * Token, or a function resolving the current token before each request
+   */
+  token: string | (() => string | Promise<string>)
+}
+
+/**
+ * Request passed to a custom signer
+ */
+export interface AuthRequest {
+  /**
+   * Full request URL, may be replaced by the signer
+   */
+  url: string
+
+  /**
+   * HTTP method
+   */
+  readonly method: string
+
+  /**
+   * Request headers, may be modified by the signer
+   */
+  headers: Record<string, string>
+
+  /**
+   * Request body
+   */
+  readonly body?: RequestInit['body']
+}
+
+/**
+ * Custom request signer
+ */
+export interface CustomAuth {
+  type: 'custom'
+
+  /**
+   * Signs a request by updating its URL and/or headers
+   */
+  sign: (request: AuthRequest) => void | Promise<void>
+}
+
+/**
+ * Authentication strategy
+ */
+export type AuthStrategy =
+  | QueryStringAuth
+  | OAuth1Auth
+  | BasicAuth
+  | ApplicationPasswordAuth
+  | BearerAuth
+  | CustomAuth
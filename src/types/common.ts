@@ -2,6 +2,12 @@
  * Common types and interfaces shared across the WooCommerce SDK
  */
 
+import type { WooCommerceError } from '../errors'
+import type { RateLimiter } from '../client/rate-limiter'
+import type { AuthStrategy } from './auth'
+import type { WooCommerceMiddleware } from './middleware'
+import type { FetchLike, WooCommerceTransport } from './transport'
+
 /**
  * WooCommerce API configuration
  */
@@ -12,14 +18,20 @@ export interface WooCommerceConfig {
   url: string
 
   /**
-   * Consumer key for OAuth 1.0a
+   * Consumer key (required unless `auth` is set)
+   */
+  consumerKey?: string
+
+  /**
+   * Consumer secret (required unless `auth` is set)
    */
-  consumerKey: string
+  consumerSecret?: string
 
   /**
-   * Consumer secret for OAuth 1.0a
+   * Authentication strategy, takes precedence over `consumerKey`/`consumerSecret`,
+   * `queryStringAuth` and `oauth`
    */
-  consumerSecret: string
+  auth?: AuthStrategy
 
   /**
    * API version (default: 'wc/v3')
@@ -34,8 +46,150 @@ export interface WooCommerceConfig {
   /**
    * Enable query string auth for HTTPS (default: false)
    * Note: OAuth 1.0a signing is used for HTTP, query string for HTTPS
+   * Ignored when `auth` is set
    */
   queryStringAuth?: boolean
+
+  /**
+   * OAuth 1.0a signing options, used when query string auth is disabled
+   * Ignored when `auth` is set
+   */
+  oauth?: OAuthConfig
+
+  /**
+   * Automatic retry policy for transient failures (default: disabled)
+   * Pass `true` to enable retries with the default policy
+   */
+  retry?: RetryConfig | boolean
+
+  /**
+   * Client-side rate limiting shared by all resource clients (default: disabled)
+   * Pass a `RateLimiter` instance to share one budget across several clients
+   */
+  rateLimit?: RateLimitConfig | RateLimiter
+
+  /**
+   * Ordered request/response middleware applied to every resource client
+   */
+  middleware?: WooCommerceMiddleware[]
+
+  /**
+   * Fetch implementation used to send requests (default: global `fetch`)
+   */
+  fetch?: FetchLike
+
+  /**
+   * Extra options merged into every fetch call, e.g. an undici `dispatcher`
+   * for proxies or keep-alive pools
+   */
+  fetchOptions?: Record<string, unknown>
+
+  /**
+   * Custom transport used to send requests, takes precedence over `fetch`
+   */
+  transport?: WooCommerceTransport
+}
+
+/**
+ * Supported OAuth 1.0a signature methods
+ */
+export type OAuthSignatureMethod = 'HMAC-SHA1' | 'HMAC-SHA256'
+
+/**
+ * OAuth 1.0a signing configuration
+ */
+export interface OAuthConfig {
+  /**
+   * Signature method (default: 'HMAC-SHA256')
+   */
+  signatureMethod?: OAuthSignatureMethod
+
+  /**
+   * Where the OAuth parameters are sent (default: 'header')
+   * WooCommerce also accepts them in the query string, which survives
+   * servers that strip the `Authorization` header
+   */
+  placement?: 'header' | 'query'
+}
+
+/**
+ * Client-side rate limiter configuration
+ */
+export interface RateLimitConfig {
+  /**
+   * Sustained number of requests per second (default: unlimited)
+   */
+  requestsPerSecond?: number
+
+  /**
+   * Number of requests that can be sent at once before throttling (default: requestsPerSecond)
+   */
+  burst?: number
+
+  /**
+   * Maximum number of requests in flight (default: unlimited)
+   */
+  maxConcurrent?: number
+
+  /**
+   * Pause and halve the request rate when a 429 or `Retry-After` is received,
+   * then recover gradually on successful requests (default: true)
+   */
+  adaptive?: boolean
+}
+
+/**
+ * Retry policy applied by every resource client
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first one (default: 3)
+   */
+  maxAttempts?: number
+
+  /**
+   * Base delay in milliseconds for exponential backoff (default: 500)
+   */
+  baseDelay?: number
+
+  /**
+   * Upper bound for a single delay in milliseconds (default: 30000)
+   */
+  maxDelay?: number
+
+  /**
+   * Jitter strategy applied to the backoff delay (default: 'full')
+   * - 'full': random delay between 0 and the computed backoff
+   * - 'equal': half of the computed backoff plus a random half
+   * - 'none': deterministic exponential backoff
+   */
+  jitter?: 'full' | 'equal' | 'none'
+
+  /**
+   * HTTP status codes that are retried (default: [408, 425, 429, 500, 502, 503, 504])
+   */
+  retryableStatusCodes?: number[]
+
+  /**
+   * Error classes that are retried regardless of status code
+   * (default: [WooCommerceNetworkError, WooCommerceRateLimitError])
+   */
+  retryableErrors?: Array<abstract new (...args: any[]) => WooCommerceError>
+
+  /**
+   * Retry non-idempotent requests (POST, including batch calls) (default: false)
+   */
+  retryNonIdempotent?: boolean
+
+  /**
+   * Wait for the `Retry-After` delay sent with 429 responses, capped by `maxDelay` (default: true)
+   */
+  respectRetryAfter?: boolean
+
+  /**
+   * Callback invoked before each retry, useful for logging
+   */
+  onRetry?: (error: WooCommerceError, attempt: number, delay: number) => void
 }
 
 /**
@@ -48,19 +202,101 @@ export interface WooCommercePaginatedResponse<T> {
   data: T[]
 
   /**
-   * Pagination metadata from response headers
+   * Total number of items available (from `X-WP-Total`)
    */
-  headers: {
-    /**
-     * Total number of items available
-     */
-    'x-wp-total'?: string
+  total: number
 
-    /**
-     * Total number of pages available
-     */
-    'x-wp-totalpages'?: string
-  }
+  /**
+   * Total number of pages available (from `X-WP-TotalPages`)
+   */
+  totalPages: number
+
+  /**
+   * Current page number
+   */
+  page: number
+
+  /**
+   * Number of items requested per page
+   */
+  perPage: number
+
+  /**
+   * Navigation links parsed from the `Link` header
+   */
+  links: PaginationLinks
+}
+
+/**
+ * Navigation links parsed from the `Link` response header
+ * Authentication query parameters are removed from the URLs
+ */
+export interface PaginationLinks {
+  /**
+   * URL of the next page
+   */
+  next?: string
+
+  /**
+   * URL of the previous page
+   */
+  prev?: string
+
+  /**
+   * URL of the first page
+   */
+  first?: string
+
+  /**
+   * URL of the last page
+   */
+  last?: string
+}
+
+/**
+ * Per-request options accepted as the last argument of every client method
+ */
+export interface RequestOptions {
+  /**
+   * Signal that cancels the request (including pending retries)
+   */
+  signal?: AbortSignal
+
+  /**
+   * Request timeout in milliseconds, overrides the client timeout
+   */
+  timeout?: number
+
+  /**
+   * Extra headers sent with the request
+   */
+  headers?: Record<string, string>
+
+  /**
+   * Extra query parameters, overriding parameters with the same name
+   */
+  query?: Record<string, any>
+}
+
+/**
+ * Options for iterating over a paginated collection
+ */
+export interface IterateOptions extends RequestOptions {
+  /**
+   * Maximum number of items to yield before stopping (default: unlimited)
+   */
+  maxItems?: number
+}
+
+/**
+ * Options for retrieving every page of a collection
+ */
+export interface ListAllOptions extends RequestOptions {
+  /**
+   * Maximum number of pages fetched in parallel once `X-WP-TotalPages` is known (default: 1)
+   * Requests still go through the client's retry policy
+   */
+  concurrency?: number
 }
 
 /**
@@ -317,6 +553,76 @@ export interface Links {
   up?: Array<{ href: string }>
 }
 
+/**
+ * Type of a setting field of a shipping method or payment gateway
+ * WooCommerce core uses the types below, extensions may define others
+ */
+export type SettingFieldType =
+  | 'text'
+  | 'email'
+  | 'number'
+  | 'color'
+  | 'password'
+  | 'textarea'
+  | 'select'
+  | 'multiselect'
+  | 'radio'
+  | 'image_width'
+  | 'checkbox'
+  | 'price'
+  | 'decimal'
+  | string
+
+/**
+ * Setting field of a shipping method or payment gateway, with its schema and current value
+ */
+export interface SettingField {
+  /**
+   * Setting ID (e.g. 'cost', 'testmode')
+   */
+  id: string
+
+  /**
+   * Setting label
+   */
+  label: string
+
+  /**
+   * Setting description
+   */
+  description: string
+
+  /**
+   * Field type
+   */
+  type: SettingFieldType
+
+  /**
+   * Current value (checkboxes use 'yes'/'no')
+   */
+  value: string
+
+  /**
+   * Default value
+   */
+  default: string
+
+  /**
+   * Help tip shown next to the field
+   */
+  tip: string
+
+  /**
+   * Placeholder text
+   */
+  placeholder: string
+
+  /**
+   * Available options keyed by value (select fields only)
+   */
+  options?: Record<string, string>
+}
+
 /**
  * Error response from WooCommerce API
  */
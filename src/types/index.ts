@@ -6,12 +6,18 @@
 
 // Common types
 export * from './common'
+export * from './auth'
+export * from './middleware'
+export * from './transport'
 
 // Product-related types
 export * from './products'
 export * from './variations'
 export * from './categories'
 export * from './tags'
+export * from './attributes'
+export * from './reviews'
+export * from './shipping-classes'
 
 // Order-related types
 export * from './orders'
@@ -25,3 +31,13 @@ export * from './coupons'
 
 // Webhook types
 export * from './webhooks'
+
+// Store configuration types
+export * from './shipping'
+export * from './taxes'
+export * from './payment-gateways'
+export * from './settings'
+export * from './system-status'
+
+// Report types
+export * from './reports'
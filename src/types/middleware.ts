@@ -0,0 +1,83 @@
+/**
+ * Request/response middleware types for the WooCommerce SDK
+ */
+
+import type { WooCommerceError } from '../errors'
+
+/**
+ * Mutable description of an outgoing request, shared by all hooks of a request attempt
+ */
+export interface RequestContext {
+  /**
+   * API endpoint (without base URL), e.g. 'products/123'
+   */
+  readonly endpoint: string
+
+  /**
+   * Full request URL, without authentication parameters
+   * Changes are applied before the request is authenticated and signed
+   */
+  url: string
+
+  /**
+   * HTTP method (uppercase)
+   */
+  method: string
+
+  /**
+   * Request headers
+   */
+  headers: Record<string, string>
+
+  /**
+   * Request body (JSON string for POST/PUT requests)
+   */
+  body?: RequestInit['body']
+
+  /**
+   * One-based attempt number (greater than 1 when the request is retried)
+   */
+  readonly attempt: number
+
+  /**
+   * Free-form storage for passing data between hooks (e.g. start time for latency)
+   */
+  readonly metadata: Record<string, unknown>
+}
+
+/**
+ * Request/response interceptor
+ *
+ * Hooks run in registration order for every request attempt. Returning a `Response`
+ * from a hook short-circuits or rewrites the exchange:
+ * - `onRequest`: skips the network call (e.g. serve from cache); `onResponse` hooks still run
+ * - `onResponse`: replaces the response seen by later hooks and by the client
+ * - `onError`: recovers from the error with the returned response
+ */
+export interface WooCommerceMiddleware {
+  /**
+   * Optional name, useful for debugging
+   */
+  name?: string
+
+  /**
+   * Called before the request is authenticated and sent
+   */
+  onRequest?: (context: RequestContext) => void | Response | Promise<void | Response>
+
+  /**
+   * Called with the raw response, before error mapping and JSON parsing
+   */
+  onResponse?: (
+    response: Response,
+    context: RequestContext
+  ) => void | Response | Promise<void | Response>
+
+  /**
+   * Called with the typed SDK error when the request fails
+   */
+  onError?: (
+    error: WooCommerceError,
+    context: RequestContext
+  ) => void | Response | Promise<void | Response>
+}
@@ -0,0 +1,95 @@
+/**
+ * Payment Gateway types and interfaces for WooCommerce REST API
+ */
+
+import type { Links, SettingField } from './common'
+
+/**
+ * Setting field of a payment gateway (e.g. 'title', 'testmode', 'api_key')
+ */
+export type PaymentGatewaySetting = SettingField
+
+/**
+ * Complete WooCommerce Payment Gateway entity
+ */
+export interface WooCommercePaymentGateway {
+  /**
+   * Gateway ID (e.g. 'bacs', 'cod', 'stripe', read-only)
+   */
+  id: string
+
+  /**
+   * Gateway title shown to customers at checkout
+   */
+  title: string
+
+  /**
+   * Gateway description shown to customers at checkout
+   */
+  description: string
+
+  /**
+   * Sort order at checkout ('' when the gateway was never reordered)
+   */
+  order: number | string
+
+  /**
+   * Whether the gateway is enabled
+   */
+  enabled: boolean
+
+  /**
+   * Gateway method title shown in the admin (read-only)
+   */
+  method_title: string
+
+  /**
+   * Gateway method description shown in the admin (read-only)
+   */
+  method_description: string
+
+  /**
+   * Features supported by the gateway (e.g. 'products', 'refunds', read-only)
+   */
+  method_supports: string[]
+
+  /**
+   * Gateway settings keyed by setting ID
+   */
+  settings: Record<string, PaymentGatewaySetting>
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Payment gateway update request
+ */
+export interface UpdatePaymentGatewayRequest {
+  /**
+   * Gateway title shown to customers at checkout
+   */
+  title?: string
+
+  /**
+   * Gateway description shown to customers at checkout
+   */
+  description?: string
+
+  /**
+   * Sort order at checkout
+   */
+  order?: number
+
+  /**
+   * Whether the gateway is enabled
+   */
+  enabled?: boolean
+
+  /**
+   * Setting values keyed by setting ID (checkboxes use 'yes'/'no')
+   */
+  settings?: Record<string, string>
+}
@@ -0,0 +1,241 @@
+/**
+ * Report types and interfaces for WooCommerce REST API
+ */
+
+import type { Links } from './common'
+import type { DiscountType } from './coupons'
+import type { OrderStatus } from './orders'
+import type { ProductType } from './products'
+
+/**
+ * Available report
+ */
+export interface WooCommerceReport {
+  /**
+   * Report slug (e.g. 'sales', 'orders/totals')
+   */
+  slug: string
+
+  /**
+   * Report description
+   */
+  description: string
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Predefined report period
+ */
+export type ReportPeriod = 'week' | 'month' | 'last_month' | 'year'
+
+/**
+ * Report query parameters
+ * Use either `period` or a `date_min`/`date_max` range (defaults to the current week)
+ */
+export interface ReportParams {
+  /**
+   * Scope under which the request is made (default: 'view')
+   */
+  context?: 'view' | 'edit'
+
+  /**
+   * Predefined period to report on
+   */
+  period?: ReportPeriod
+
+  /**
+   * Start date of the report, inclusive (YYYY-MM-DD)
+   */
+  date_min?: string
+
+  /**
+   * End date of the report, inclusive (YYYY-MM-DD)
+   */
+  date_max?: string
+}
+
+/**
+ * Sales totals of a single day or month
+ */
+export interface SalesReportTotals {
+  /**
+   * Gross sales
+   */
+  sales: string
+
+  /**
+   * Number of orders
+   */
+  orders: number
+
+  /**
+   * Number of items sold
+   */
+  items: number
+
+  /**
+   * Tax charged
+   */
+  tax: string
+
+  /**
+   * Shipping charged
+   */
+  shipping: string
+
+  /**
+   * Discounts given
+   */
+  discount: string
+
+  /**
+   * Number of new customers
+   */
+  customers: number
+}
+
+/**
+ * Sales report
+ */
+export interface WooCommerceSalesReport {
+  /**
+   * Gross sales in the period
+   */
+  total_sales: string
+
+  /**
+   * Net sales in the period
+   */
+  net_sales: string
+
+  /**
+   * Average net daily (or monthly) sales
+   */
+  average_sales: string
+
+  /**
+   * Number of orders
+   */
+  total_orders: number
+
+  /**
+   * Number of items sold
+   */
+  total_items: number
+
+  /**
+   * Tax charged
+   */
+  total_tax: string
+
+  /**
+   * Shipping charged
+   */
+  total_shipping: string
+
+  /**
+   * Amount refunded
+   */
+  total_refunds: number
+
+  /**
+   * Discounts given
+   */
+  total_discount: string
+
+  /**
+   * Grouping of `totals`, by day for periods up to a month and by month for longer ones
+   */
+  totals_grouped_by: 'day' | 'month'
+
+  /**
+   * Totals keyed by date ('YYYY-MM-DD' when grouped by day, 'YYYY-MM' when grouped by month)
+   */
+  totals: Record<string, SalesReportTotals>
+
+  /**
+   * Number of new customers
+   */
+  total_customers: number
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Top seller report entry
+ */
+export interface WooCommerceTopSeller {
+  /**
+   * Product name
+   */
+  name: string
+
+  /**
+   * Product ID
+   */
+  product_id: number
+
+  /**
+   * Quantity sold
+   */
+  quantity: number
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Count of resources of one kind (status, type or rating) in a totals report
+ */
+export interface WooCommerceReportTotal<S extends string = string> {
+  /**
+   * Status, type or rating slug
+   */
+  slug: S
+
+  /**
+   * Label
+   */
+  name: string
+
+  /**
+   * Number of resources
+   */
+  total: number
+}
+
+/**
+ * Orders totals entry, one per order status (custom statuses included)
+ */
+export type OrdersTotal = WooCommerceReportTotal<OrderStatus | string>
+
+/**
+ * Products totals entry, one per product type
+ */
+export type ProductsTotal = WooCommerceReportTotal<ProductType | string>
+
+/**
+ * Customers totals entry, for paying and non-paying customers
+ */
+export type CustomersTotal = WooCommerceReportTotal<'paying' | 'non_paying'>
+
+/**
+ * Coupons totals entry, one per discount type
+ */
+export type CouponsTotal = WooCommerceReportTotal<DiscountType | string>
+
+/**
+ * Reviews totals entry, one per star rating
+ */
+export type ReviewsTotal = WooCommerceReportTotal<
+  'rating_1' | 'rating_2' | 'rating_3' | 'rating_4' | 'rating_5'
+>
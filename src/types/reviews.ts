@@ -0,0 +1,238 @@
+/**
+ * Product Review types and interfaces for WooCommerce REST API
+ */
+
+import type { Links, ListParams } from './common'
+
+/**
+ * Review status as returned by the API
+ */
+export type ReviewStatus = 'approved' | 'hold' | 'spam' | 'trash'
+
+/**
+ * Review status that can be set on update
+ * 'unspam' and 'untrash' restore the status the review had before
+ */
+export type ReviewStatusUpdate = ReviewStatus | 'unspam' | 'untrash'
+
+/**
+ * Reviewer avatar URLs keyed by size in pixels (e.g. '24', '48', '96')
+ */
+export type ReviewerAvatarUrls = Record<string, string>
+
+/**
+ * Complete WooCommerce Product Review entity
+ */
+export interface WooCommerceReview {
+  /**
+   * Unique review ID (read-only)
+   */
+  id: number
+
+  /**
+   * Date review was created (site's timezone, read-only)
+   */
+  date_created: string
+
+  /**
+   * Date review was created (GMT, read-only)
+   */
+  date_created_gmt: string
+
+  /**
+   * ID of the reviewed product
+   */
+  product_id: number
+
+  /**
+   * Name of the reviewed product (read-only)
+   */
+  product_name: string
+
+  /**
+   * Permalink of the reviewed product (read-only)
+   */
+  product_permalink: string
+
+  /**
+   * Review status
+   */
+  status: ReviewStatus
+
+  /**
+   * Reviewer name
+   */
+  reviewer: string
+
+  /**
+   * Reviewer email
+   */
+  reviewer_email: string
+
+  /**
+   * Review content (HTML)
+   */
+  review: string
+
+  /**
+   * Review rating (0 to 5, 0 when no rating was given)
+   */
+  rating: number
+
+  /**
+   * Whether the reviewer bought the product (read-only)
+   */
+  verified: boolean
+
+  /**
+   * Reviewer avatar URLs (read-only)
+   */
+  reviewer_avatar_urls: ReviewerAvatarUrls
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Review creation request
+ */
+export interface CreateReviewRequest {
+  /**
+   * ID of the reviewed product (required)
+   */
+  product_id: number
+
+  /**
+   * Review content (required)
+   */
+  review: string
+
+  /**
+   * Reviewer name (required)
+   */
+  reviewer: string
+
+  /**
+   * Reviewer email (required)
+   */
+  reviewer_email: string
+
+  /**
+   * Review rating (0 to 5)
+   */
+  rating?: number
+
+  /**
+   * Review status (default: 'approved')
+   */
+  status?: ReviewStatusUpdate
+}
+
+/**
+ * Review update request (all fields optional)
+ */
+export type UpdateReviewRequest = Partial<CreateReviewRequest>
+
+/**
+ * Review list query parameters
+ */
+export interface ListReviewsParams extends ListParams {
+  /**
+   * Limit result set to reviews of specific product IDs
+   */
+  product?: number[]
+
+  /**
+   * Limit result set to reviews by specific reviewer (user) IDs
+   */
+  reviewer?: number[]
+
+  /**
+   * Ensure result set excludes reviews by specific reviewer (user) IDs
+   */
+  reviewer_exclude?: number[]
+
+  /**
+   * Limit result set to reviews by specific reviewer emails
+   */
+  reviewer_email?: string | string[]
+
+  /**
+   * Limit result set to reviews with a specific status (default: 'approved')
+   */
+  status?: ReviewStatus | 'all'
+
+  /**
+   * Limit result set to reviews published after a given ISO8601 date
+   */
+  after?: string
+
+  /**
+   * Limit result set to reviews published before a given ISO8601 date
+   */
+  before?: string
+
+  /**
+   * Sort by attribute
+   * Options: 'date', 'date_gmt', 'id', 'include', 'product'
+   */
+  orderby?: 'date' | 'date_gmt' | 'id' | 'include' | 'product'
+}
+
+/**
+ * Batch review operation
+ */
+export interface BatchReviewsRequest {
+  /**
+   * Reviews to create
+   */
+  create?: CreateReviewRequest[]
+
+  /**
+   * Reviews to update (must include ID)
+   */
+  update?: Array<UpdateReviewRequest & { id: number }>
+
+  /**
+   * Review IDs to delete
+   */
+  delete?: number[]
+}
+
+/**
+ * Batch review operation response
+ */
+export interface BatchReviewsResponse {
+  /**
+   * Created reviews
+   */
+  create: WooCommerceReview[]
+
+  /**
+   * Updated reviews
+   */
+  update: WooCommerceReview[]
+
+  /**
+   * Deleted reviews
+   */
+  delete: WooCommerceReview[]
+}
+
+/**
+ * Response of a permanent review deletion
+ * Trashing (`force: false`) returns the review itself instead
+ */
+export interface DeletedReviewResponse {
+  /**
+   * Whether the review was deleted
+   */
+  deleted: boolean
+
+  /**
+   * Review as it was before deletion
+   */
+  previous: WooCommerceReview
+}
@@ -0,0 +1,653 @@
+/**
+ * Settings Group and Setting Option types and interfaces for WooCommerce REST API
+ */
+
+import type { Links, SettingFieldType } from './common'
+
+/**
+ * Value of a checkbox setting
+ */
+export type SettingCheckboxValue = 'yes' | 'no'
+
+/**
+ * Value of an image size setting
+ */
+export interface ImageSizeSettingValue {
+  /**
+   * Image width in pixels
+   */
+  width: string
+
+  /**
+   * Image height in pixels
+   */
+  height: string
+
+  /**
+   * Whether images are hard cropped (1) or resized (0)
+   */
+  crop: number
+}
+
+/**
+ * Value of any setting option
+ * Multiselect options hold arrays, image sizes objects, every other type a string
+ */
+export type SettingValue = string | string[] | ImageSizeSettingValue
+
+/**
+ * Complete WooCommerce Settings Group entity
+ */
+export interface WooCommerceSettingsGroup {
+  /**
+   * Group ID (e.g. 'general', 'products', read-only)
+   */
+  id: string
+
+  /**
+   * Group label (read-only)
+   */
+  label: string
+
+  /**
+   * Group description (read-only)
+   */
+  description: string
+
+  /**
+   * Parent group ID ('' for top-level groups, read-only)
+   */
+  parent_id: string
+
+  /**
+   * IDs of the sub groups (read-only)
+   */
+  sub_groups: string[]
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Complete WooCommerce Setting Option entity
+ */
+export interface WooCommerceSettingOption<V = SettingValue> {
+  /**
+   * Option ID (e.g. 'woocommerce_currency', read-only)
+   */
+  id: string
+
+  /**
+   * Option label (read-only)
+   */
+  label: string
+
+  /**
+   * Option description (read-only)
+   */
+  description: string
+
+  /**
+   * Option value
+   */
+  value: V
+
+  /**
+   * Default value (read-only)
+   */
+  default: V
+
+  /**
+   * Help tip shown next to the field (read-only)
+   */
+  tip: string
+
+  /**
+   * Placeholder text (read-only)
+   */
+  placeholder: string
+
+  /**
+   * Field type (e.g. 'select', 'checkbox', 'single_select_page', read-only)
+   */
+  type: SettingFieldType
+
+  /**
+   * Available options keyed by value (select and multiselect fields only, read-only)
+   */
+  options?: Record<string, string>
+
+  /**
+   * ID of the group the option belongs to (read-only)
+   */
+  group_id: string
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Options of the 'general' settings group (store address, selling locations, currency)
+ */
+export interface GeneralSettings {
+  /**
+   * Store address line 1
+   */
+  woocommerce_store_address?: string
+
+  /**
+   * Store address line 2
+   */
+  woocommerce_store_address_2?: string
+
+  /**
+   * Store city
+   */
+  woocommerce_store_city?: string
+
+  /**
+   * Store country and state (e.g. 'US:CA')
+   */
+  woocommerce_default_country?: string
+
+  /**
+   * Store postcode
+   */
+  woocommerce_store_postcode?: string
+
+  /**
+   * Countries the store sells to
+   */
+  woocommerce_allowed_countries?: 'all' | 'all_except' | 'specific'
+
+  /**
+   * Countries excluded when selling to all countries except some
+   */
+  woocommerce_all_except_countries?: string[]
+
+  /**
+   * Countries sold to when selling to specific countries
+   */
+  woocommerce_specific_allowed_countries?: string[]
+
+  /**
+   * Countries the store ships to ('' ships to all countries sold to)
+   */
+  woocommerce_ship_to_countries?: '' | 'all' | 'specific' | 'disabled'
+
+  /**
+   * Countries shipped to when shipping to specific countries
+   */
+  woocommerce_specific_ship_to_countries?: string[]
+
+  /**
+   * Default customer location used for taxes and shipping
+   */
+  woocommerce_default_customer_address?: '' | 'base' | 'geolocation' | 'geolocation_ajax'
+
+  /**
+   * Whether tax rates and calculations are enabled
+   */
+  woocommerce_calc_taxes?: SettingCheckboxValue
+
+  /**
+   * Whether coupons are enabled
+   */
+  woocommerce_enable_coupons?: SettingCheckboxValue
+
+  /**
+   * Whether coupon discounts are applied sequentially
+   */
+  woocommerce_calc_discounts_sequentially?: SettingCheckboxValue
+
+  /**
+   * ISO 4217 currency code (e.g. 'EUR')
+   */
+  woocommerce_currency?: string
+
+  /**
+   * Currency symbol position
+   */
+  woocommerce_currency_pos?: 'left' | 'right' | 'left_space' | 'right_space'
+
+  /**
+   * Thousand separator
+   */
+  woocommerce_price_thousand_sep?: string
+
+  /**
+   * Decimal separator
+   */
+  woocommerce_price_decimal_sep?: string
+
+  /**
+   * Number of decimals
+   */
+  woocommerce_price_num_decimals?: string
+}
+
+/**
+ * Options of the 'products' settings group (shop pages, units, reviews, inventory, downloads)
+ */
+export interface ProductsSettings {
+  /**
+   * Shop page ID
+   */
+  woocommerce_shop_page_id?: string
+
+  /**
+   * Whether to redirect to the cart after adding a product
+   */
+  woocommerce_cart_redirect_after_add?: SettingCheckboxValue
+
+  /**
+   * Whether add to cart buttons use AJAX on archives
+   */
+  woocommerce_enable_ajax_add_to_cart?: SettingCheckboxValue
+
+  /**
+   * Placeholder image attachment ID or URL
+   */
+  woocommerce_placeholder_image?: string
+
+  /**
+   * Weight unit
+   */
+  woocommerce_weight_unit?: 'kg' | 'g' | 'lbs' | 'oz'
+
+  /**
+   * Dimensions unit
+   */
+  woocommerce_dimension_unit?: 'm' | 'cm' | 'mm' | 'in' | 'yd'
+
+  /**
+   * Whether product reviews are enabled
+   */
+  woocommerce_enable_reviews?: SettingCheckboxValue
+
+  /**
+   * Whether to label reviews from verified owners
+   */
+  woocommerce_review_rating_verification_label?: SettingCheckboxValue
+
+  /**
+   * Whether only verified owners can leave reviews
+   */
+  woocommerce_review_rating_verification_required?: SettingCheckboxValue
+
+  /**
+   * Whether star ratings are enabled on reviews
+   */
+  woocommerce_enable_review_rating?: SettingCheckboxValue
+
+  /**
+   * Whether star ratings are required
+   */
+  woocommerce_review_rating_required?: SettingCheckboxValue
+
+  /**
+   * Whether stock management is enabled
+   */
+  woocommerce_manage_stock?: SettingCheckboxValue
+
+  /**
+   * Minutes to hold stock for unpaid orders ('' disables holding)
+   */
+  woocommerce_hold_stock_minutes?: string
+
+  /**
+   * Whether low stock notifications are enabled
+   */
+  woocommerce_notify_low_stock?: SettingCheckboxValue
+
+  /**
+   * Whether out of stock notifications are enabled
+   */
+  woocommerce_notify_no_stock?: SettingCheckboxValue
+
+  /**
+   * Stock notifications recipient
+   */
+  woocommerce_stock_email_recipient?: string
+
+  /**
+   * Low stock threshold
+   */
+  woocommerce_notify_low_stock_amount?: string
+
+  /**
+   * Out of stock threshold
+   */
+  woocommerce_notify_no_stock_amount?: string
+
+  /**
+   * Whether out of stock products are hidden from the catalog
+   */
+  woocommerce_hide_out_of_stock_items?: SettingCheckboxValue
+
+  /**
+   * Stock display format ('' always shows the stock)
+   */
+  woocommerce_stock_format?: '' | 'low_amount' | 'no_amount'
+
+  /**
+   * File download method
+   */
+  woocommerce_file_download_method?: 'force' | 'xsendfile' | 'redirect'
+
+  /**
+   * Whether downloads require login
+   */
+  woocommerce_downloads_require_login?: SettingCheckboxValue
+
+  /**
+   * Whether download access is granted after payment
+   */
+  woocommerce_downloads_grant_access_after_payment?: SettingCheckboxValue
+}
+
+/**
+ * Options of the 'tax' settings group
+ */
+export interface TaxSettings {
+  /**
+   * Whether prices are entered inclusive of tax
+   */
+  woocommerce_prices_include_tax?: SettingCheckboxValue
+
+  /**
+   * Address used to calculate tax
+   */
+  woocommerce_tax_based_on?: 'shipping' | 'billing' | 'base'
+
+  /**
+   * Shipping tax class ('inherit' uses the cart items' class)
+   */
+  woocommerce_shipping_tax_class?: string
+
+  /**
+   * Whether tax is rounded at subtotal level
+   */
+  woocommerce_tax_round_at_subtotal?: SettingCheckboxValue
+
+  /**
+   * Additional tax class names, one per line
+   */
+  woocommerce_tax_classes?: string
+
+  /**
+   * Whether shop prices are displayed including or excluding tax
+   */
+  woocommerce_tax_display_shop?: 'incl' | 'excl'
+
+  /**
+   * Whether cart and checkout prices are displayed including or excluding tax
+   */
+  woocommerce_tax_display_cart?: 'incl' | 'excl'
+
+  /**
+   * Price display suffix
+   */
+  woocommerce_price_display_suffix?: string
+
+  /**
+   * Whether taxes are displayed as a single total or itemized
+   */
+  woocommerce_tax_total_display?: 'single' | 'itemized'
+}
+
+/**
+ * Options of the 'checkout' settings group
+ * Recent WooCommerce versions moved most checkout options to the 'account' and 'advanced' groups
+ */
+export interface CheckoutSettings {
+  /**
+   * Whether customers can check out without an account
+   */
+  woocommerce_enable_guest_checkout?: SettingCheckboxValue
+
+  /**
+   * Whether the login reminder is shown at checkout
+   */
+  woocommerce_enable_checkout_login_reminder?: SettingCheckboxValue
+
+  /**
+   * Whether HTTPS is forced on checkout pages
+   */
+  woocommerce_force_ssl_checkout?: SettingCheckboxValue
+
+  /**
+   * Whether HTTP is forced when leaving checkout pages
+   */
+  woocommerce_unforce_ssl_checkout?: SettingCheckboxValue
+}
+
+/**
+ * Options of the 'email' settings group (sender and template)
+ */
+export interface EmailSettings {
+  /**
+   * Sender name
+   */
+  woocommerce_email_from_name?: string
+
+  /**
+   * Sender email address
+   */
+  woocommerce_email_from_address?: string
+
+  /**
+   * Header image URL
+   */
+  woocommerce_email_header_image?: string
+
+  /**
+   * Footer text
+   */
+  woocommerce_email_footer_text?: string
+
+  /**
+   * Base color
+   */
+  woocommerce_email_base_color?: string
+
+  /**
+   * Background color
+   */
+  woocommerce_email_background_color?: string
+
+  /**
+   * Body background color
+   */
+  woocommerce_email_body_background_color?: string
+
+  /**
+   * Body text color
+   */
+  woocommerce_email_text_color?: string
+}
+
+/**
+ * Options of the 'advanced' settings group (page setup and endpoints)
+ */
+export interface AdvancedSettings {
+  /**
+   * Cart page ID
+   */
+  woocommerce_cart_page_id?: string
+
+  /**
+   * Checkout page ID
+   */
+  woocommerce_checkout_page_id?: string
+
+  /**
+   * My account page ID
+   */
+  woocommerce_myaccount_page_id?: string
+
+  /**
+   * Terms and conditions page ID
+   */
+  woocommerce_terms_page_id?: string
+
+  /**
+   * Whether HTTPS is forced on checkout pages
+   */
+  woocommerce_force_ssl_checkout?: SettingCheckboxValue
+
+  /**
+   * Whether HTTP is forced when leaving checkout pages
+   */
+  woocommerce_unforce_ssl_checkout?: SettingCheckboxValue
+
+  /**
+   * Checkout pay endpoint
+   */
+  woocommerce_checkout_pay_endpoint?: string
+
+  /**
+   * Order received endpoint
+   */
+  woocommerce_checkout_order_received_endpoint?: string
+
+  /**
+   * Add payment method endpoint
+   */
+  woocommerce_myaccount_add_payment_method_endpoint?: string
+
+  /**
+   * Delete payment method endpoint
+   */
+  woocommerce_myaccount_delete_payment_method_endpoint?: string
+
+  /**
+   * Set default payment method endpoint
+   */
+  woocommerce_myaccount_set_default_payment_method_endpoint?: string
+
+  /**
+   * My account orders endpoint
+   */
+  woocommerce_myaccount_orders_endpoint?: string
+
+  /**
+   * My account view order endpoint
+   */
+  woocommerce_myaccount_view_order_endpoint?: string
+
+  /**
+   * My account downloads endpoint
+   */
+  woocommerce_myaccount_downloads_endpoint?: string
+
+  /**
+   * My account edit account endpoint
+   */
+  woocommerce_myaccount_edit_account_endpoint?: string
+
+  /**
+   * My account addresses endpoint
+   */
+  woocommerce_myaccount_edit_address_endpoint?: string
+
+  /**
+   * My account payment methods endpoint
+   */
+  woocommerce_myaccount_payment_methods_endpoint?: string
+
+  /**
+   * My account lost password endpoint
+   */
+  woocommerce_myaccount_lost_password_endpoint?: string
+
+  /**
+   * Logout endpoint
+   */
+  woocommerce_logout_endpoint?: string
+}
+
+/**
+ * Option values of the settings groups defined by WooCommerce core, keyed by group ID
+ * Available options depend on the WooCommerce version
+ */
+export interface KnownSettingsGroups {
+  /**
+   * Store address, selling locations and currency options
+   */
+  general: GeneralSettings
+
+  /**
+   * Product, inventory and download options
+   */
+  products: ProductsSettings
+
+  /**
+   * Tax options
+   */
+  tax: TaxSettings
+
+  /**
+   * Checkout options
+   */
+  checkout: CheckoutSettings
+
+  /**
+   * Email sender and template options
+   */
+  email: EmailSettings
+
+  /**
+   * Page setup and endpoint options
+   */
+  advanced: AdvancedSettings
+}
+
+/**
+ * Option values of a settings group
+ * Groups defined by extensions fall back to a record of untyped values
+ */
+export type SettingsGroupValues<G extends string> = G extends keyof KnownSettingsGroups
+  ? KnownSettingsGroups[G]
+  : Record<string, SettingValue>
+
+/**
+ * ID of an option of a settings group
+ */
+export type SettingsGroupOptionId<G extends string> = keyof SettingsGroupValues<G> & string
+
+/**
+ * Value of an option of a settings group
+ */
+export type SettingsGroupOptionValue<
+  G extends string,
+  K extends SettingsGroupOptionId<G>,
+> = NonNullable<SettingsGroupValues<G>[K]>
+
+/**
+ * Batch setting option operation
+ */
+export interface BatchSettingOptionsRequest<G extends string = string> {
+  /**
+   * Options to update
+   */
+  update: Array<
+    {
+      [K in SettingsGroupOptionId<G>]: { id: K; value: SettingsGroupOptionValue<G, K> }
+    }[SettingsGroupOptionId<G>]
+  >
+}
+
+/**
+ * Batch setting option operation response
+ */
+export interface BatchSettingOptionsResponse {
+  /**
+   * Updated options
+   */
+  update: WooCommerceSettingOption[]
+}
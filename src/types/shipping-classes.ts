@@ -0,0 +1,131 @@
+/**
+ * Product Shipping Class types and interfaces for WooCommerce REST API
+ */
+
+import type { Links, ListParams } from './common'
+
+/**
+ * Complete WooCommerce Product Shipping Class entity
+ */
+export interface WooCommerceShippingClass {
+  /**
+   * Unique shipping class ID (read-only)
+   */
+  id: number
+
+  /**
+   * Shipping class name
+   */
+  name: string
+
+  /**
+   * Shipping class slug
+   */
+  slug: string
+
+  /**
+   * Shipping class description
+   */
+  description: string
+
+  /**
+   * Number of products with this shipping class (read-only)
+   */
+  count: number
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Shipping class creation request
+ */
+export interface CreateShippingClassRequest {
+  /**
+   * Shipping class name (required)
+   */
+  name: string
+
+  /**
+   * Shipping class slug
+   */
+  slug?: string
+
+  /**
+   * Shipping class description
+   */
+  description?: string
+}
+
+/**
+ * Shipping class update request (all fields optional)
+ */
+export type UpdateShippingClassRequest = Partial<CreateShippingClassRequest>
+
+/**
+ * Shipping class list query parameters
+ */
+export interface ListShippingClassesParams extends ListParams {
+  /**
+   * Limit result set to shipping classes with no products
+   */
+  hide_empty?: boolean
+
+  /**
+   * Limit result set to shipping classes assigned a specific product
+   */
+  product?: number
+
+  /**
+   * Limit result set to shipping classes assigned a specific slug
+   */
+  slug?: string
+
+  /**
+   * Sort by attribute
+   * Options: 'id', 'include', 'name', 'slug', 'term_group', 'description', 'count'
+   */
+  orderby?: 'id' | 'include' | 'name' | 'slug' | 'term_group' | 'description' | 'count'
+}
+
+/**
+ * Batch shipping class operation
+ */
+export interface BatchShippingClassesRequest {
+  /**
+   * Shipping classes to create
+   */
+  create?: CreateShippingClassRequest[]
+
+  /**
+   * Shipping classes to update (must include ID)
+   */
+  update?: Array<UpdateShippingClassRequest & { id: number }>
+
+  /**
+   * Shipping class IDs to delete
+   */
+  delete?: number[]
+}
+
+/**
+ * Batch shipping class operation response
+ */
+export interface BatchShippingClassesResponse {
+  /**
+   * Created shipping classes
+   */
+  create: WooCommerceShippingClass[]
+
+  /**
+   * Updated shipping classes
+   */
+  update: WooCommerceShippingClass[]
+
+  /**
+   * Deleted shipping classes
+   */
+  delete: WooCommerceShippingClass[]
+}
@@ -0,0 +1,209 @@
+/**
+ * Shipping Zone, Zone Location, Zone Method and Shipping Method types for WooCommerce REST API
+ */
+
+import type { Links, SettingField, SettingFieldType } from './common'
+
+/**
+ * Complete WooCommerce Shipping Zone entity
+ * Zone 0 is the built-in "Locations not covered by your other zones" zone
+ */
+export interface WooCommerceShippingZone {
+  /**
+   * Unique zone ID (read-only)
+   */
+  id: number
+
+  /**
+   * Zone name
+   */
+  name: string
+
+  /**
+   * Sort order, zones are matched against the customer address in ascending order
+   */
+  order: number
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Shipping zone creation request
+ */
+export interface CreateShippingZoneRequest {
+  /**
+   * Zone name (required)
+   */
+  name: string
+
+  /**
+   * Sort order
+   */
+  order?: number
+}
+
+/**
+ * Shipping zone update request (all fields optional)
+ */
+export type UpdateShippingZoneRequest = Partial<CreateShippingZoneRequest>
+
+/**
+ * Shipping zone location type
+ */
+export type ShippingZoneLocationType = 'postcode' | 'state' | 'country' | 'continent'
+
+/**
+ * Shipping zone location
+ */
+export interface ShippingZoneLocation {
+  /**
+   * Location code
+   * Country: 'US', state: 'US:CA', continent: 'NA', postcode: '90210', '902*' or '90000...90999'
+   */
+  code: string
+
+  /**
+   * Location type
+   */
+  type: ShippingZoneLocationType
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Shipping zone location as sent when updating the locations of a zone
+ */
+export type ShippingZoneLocationInput = Omit<ShippingZoneLocation, '_links'>
+
+/**
+ * Type of a shipping method setting field
+ */
+export type ShippingMethodSettingType = SettingFieldType
+
+/**
+ * Setting field of a shipping method instance, describing both its schema and current value
+ */
+export type ShippingMethodSetting = SettingField
+
+/**
+ * Known core shipping method IDs
+ */
+export type ShippingMethodId = 'flat_rate' | 'free_shipping' | 'local_pickup' | string
+
+/**
+ * Complete WooCommerce Shipping Zone Method entity (a shipping method instance added to a zone)
+ */
+export interface WooCommerceShippingZoneMethod {
+  /**
+   * Method instance ID (read-only)
+   */
+  id: number
+
+  /**
+   * Method instance ID (read-only)
+   */
+  instance_id: number
+
+  /**
+   * Method title shown to customers (read-only, change it with the 'title' setting)
+   */
+  title: string
+
+  /**
+   * Sort order within the zone
+   */
+  order: number
+
+  /**
+   * Whether the method is enabled
+   */
+  enabled: boolean
+
+  /**
+   * Shipping method ID
+   */
+  method_id: ShippingMethodId
+
+  /**
+   * Shipping method title (read-only)
+   */
+  method_title: string
+
+  /**
+   * Shipping method description (read-only)
+   */
+  method_description: string
+
+  /**
+   * Instance settings keyed by setting ID
+   */
+  settings: Record<string, ShippingMethodSetting>
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Shipping zone method creation request
+ */
+export interface CreateShippingZoneMethodRequest {
+  /**
+   * Shipping method ID (required)
+   */
+  method_id: ShippingMethodId
+
+  /**
+   * Sort order within the zone
+   */
+  order?: number
+
+  /**
+   * Whether the method is enabled (default: true)
+   */
+  enabled?: boolean
+
+  /**
+   * Setting values keyed by setting ID (e.g. `{ cost: '10.00' }`)
+   */
+  settings?: Record<string, string>
+}
+
+/**
+ * Shipping zone method update request (the method ID cannot be changed)
+ */
+export type UpdateShippingZoneMethodRequest = Partial<
+  Omit<CreateShippingZoneMethodRequest, 'method_id'>
+>
+
+/**
+ * Complete WooCommerce Shipping Method entity (a method type that can be added to zones)
+ */
+export interface WooCommerceShippingMethod {
+  /**
+   * Shipping method ID (read-only)
+   */
+  id: ShippingMethodId
+
+  /**
+   * Shipping method title (read-only)
+   */
+  title: string
+
+  /**
+   * Shipping method description (read-only)
+   */
+  description: string
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
@@ -0,0 +1,626 @@
+/**
+ * System Status and System Status Tool types and interfaces for WooCommerce REST API
+ */
+
+import type { Links } from './common'
+
+/**
+ * Server environment report
+ */
+export interface SystemStatusEnvironment {
+  /**
+   * Home URL
+   */
+  home_url: string
+
+  /**
+   * Site URL
+   */
+  site_url: string
+
+  /**
+   * WooCommerce version
+   */
+  version: string
+
+  /**
+   * Log directory
+   */
+  log_directory: string
+
+  /**
+   * Whether the log directory is writable
+   */
+  log_directory_writable: boolean
+
+  /**
+   * WordPress version
+   */
+  wp_version: string
+
+  /**
+   * Whether WordPress multisite is enabled
+   */
+  wp_multisite: boolean
+
+  /**
+   * WordPress memory limit in bytes
+   */
+  wp_memory_limit: number
+
+  /**
+   * Whether WP_DEBUG is enabled
+   */
+  wp_debug_mode: boolean
+
+  /**
+   * Whether WP Cron is enabled
+   */
+  wp_cron: boolean
+
+  /**
+   * WordPress locale
+   */
+  language: string
+
+  /**
+   * Whether an external object cache is in use
+   */
+  external_object_cache: boolean | null
+
+  /**
+   * Web server software
+   */
+  server_info: string
+
+  /**
+   * PHP version
+   */
+  php_version: string
+
+  /**
+   * PHP post max size in bytes
+   */
+  php_post_max_size: number
+
+  /**
+   * PHP max execution time in seconds
+   */
+  php_max_execution_time: number
+
+  /**
+   * PHP max input vars
+   */
+  php_max_input_vars: number
+
+  /**
+   * cURL version
+   */
+  curl_version: string
+
+  /**
+   * Whether the Suhosin extension is installed
+   */
+  suhosin_installed: boolean
+
+  /**
+   * Max upload size in bytes
+   */
+  max_upload_size: number
+
+  /**
+   * MySQL version
+   */
+  mysql_version: string
+
+  /**
+   * Full MySQL version string
+   */
+  mysql_version_string: string
+
+  /**
+   * Default timezone
+   */
+  default_timezone: string
+
+  /**
+   * Whether fsockopen or cURL is enabled
+   */
+  fsockopen_or_curl_enabled: boolean
+
+  /**
+   * Whether SoapClient is enabled
+   */
+  soapclient_enabled: boolean
+
+  /**
+   * Whether DOMDocument is enabled
+   */
+  domdocument_enabled: boolean
+
+  /**
+   * Whether GZip is enabled
+   */
+  gzip_enabled: boolean
+
+  /**
+   * Whether mbstring is enabled
+   */
+  mbstring_enabled: boolean
+
+  /**
+   * Whether remote POST requests succeed
+   */
+  remote_post_successful: boolean
+
+  /**
+   * Remote POST response code
+   */
+  remote_post_response: string
+
+  /**
+   * Whether remote GET requests succeed
+   */
+  remote_get_successful: boolean
+
+  /**
+   * Remote GET response code
+   */
+  remote_get_response: string
+}
+
+/**
+ * Size of a database table in megabytes
+ */
+export interface SystemStatusDatabaseTable {
+  /**
+   * Data size
+   */
+  data: string
+
+  /**
+   * Index size
+   */
+  index: string
+
+  /**
+   * Storage engine
+   */
+  engine: string
+}
+
+/**
+ * Database report
+ */
+export interface SystemStatusDatabase {
+  /**
+   * WooCommerce database version
+   */
+  wc_database_version: string
+
+  /**
+   * Table prefix
+   */
+  database_prefix: string
+
+  /**
+   * MaxMind GeoIP database path
+   */
+  maxmind_geoip_database: string
+
+  /**
+   * Tables keyed by name, split between WooCommerce tables and other tables
+   * WooCommerce tables that are missing are reported as `false`
+   */
+  database_tables: {
+    woocommerce: Record<string, SystemStatusDatabaseTable | false>
+    other: Record<string, SystemStatusDatabaseTable>
+  }
+
+  /**
+   * Total database size in megabytes
+   */
+  database_size: {
+    data: number
+    index: number
+  }
+}
+
+/**
+ * Installed plugin
+ */
+export interface SystemStatusPlugin {
+  /**
+   * Plugin file (e.g. 'woocommerce/woocommerce.php')
+   */
+  plugin: string
+
+  /**
+   * Plugin name
+   */
+  name: string
+
+  /**
+   * Installed version
+   */
+  version: string
+
+  /**
+   * Latest available version
+   */
+  version_latest: string
+
+  /**
+   * Plugin URL
+   */
+  url: string
+
+  /**
+   * Author name
+   */
+  author_name: string
+
+  /**
+   * Author URL
+   */
+  author_url: string
+
+  /**
+   * Whether the plugin is network activated
+   */
+  network_activated: boolean
+}
+
+/**
+ * Template overridden by the theme
+ */
+export interface SystemStatusTemplateOverride {
+  /**
+   * Template file
+   */
+  file: string
+
+  /**
+   * Version of the overriding template
+   */
+  version: string
+
+  /**
+   * Version of the WooCommerce template
+   */
+  core_version: string
+}
+
+/**
+ * Active theme report
+ */
+export interface SystemStatusTheme {
+  /**
+   * Theme name
+   */
+  name: string
+
+  /**
+   * Installed version
+   */
+  version: string
+
+  /**
+   * Latest available version
+   */
+  version_latest: string
+
+  /**
+   * Author URL
+   */
+  author_url: string
+
+  /**
+   * Whether the theme is a child theme
+   */
+  is_child_theme: boolean
+
+  /**
+   * Whether the theme declares WooCommerce support
+   */
+  has_woocommerce_support: boolean
+
+  /**
+   * Whether the theme has a woocommerce.php file
+   */
+  has_woocommerce_file: boolean
+
+  /**
+   * Whether some template overrides are outdated
+   */
+  has_outdated_templates: boolean
+
+  /**
+   * Templates overridden by the theme
+   */
+  overrides: SystemStatusTemplateOverride[]
+
+  /**
+   * Parent theme name
+   */
+  parent_name: string
+
+  /**
+   * Parent theme version
+   */
+  parent_version: string
+
+  /**
+   * Latest available parent theme version
+   */
+  parent_version_latest: string
+
+  /**
+   * Parent theme author URL
+   */
+  parent_author_url: string
+}
+
+/**
+ * Store settings report
+ */
+export interface SystemStatusSettings {
+  /**
+   * Whether the legacy REST API is enabled
+   */
+  api_enabled: boolean
+
+  /**
+   * Whether SSL is forced
+   */
+  force_ssl: boolean
+
+  /**
+   * Currency code
+   */
+  currency: string
+
+  /**
+   * Currency symbol
+   */
+  currency_symbol: string
+
+  /**
+   * Currency position
+   */
+  currency_position: string
+
+  /**
+   * Thousand separator
+   */
+  thousand_separator: string
+
+  /**
+   * Decimal separator
+   */
+  decimal_separator: string
+
+  /**
+   * Number of decimals
+   */
+  number_of_decimals: number
+
+  /**
+   * Whether geolocation is enabled
+   */
+  geolocation_enabled: boolean
+
+  /**
+   * Product type terms keyed by slug
+   */
+  taxonomies: Record<string, string>
+
+  /**
+   * Product visibility terms keyed by slug
+   */
+  product_visibility_terms: Record<string, string>
+
+  /**
+   * Whether the store is connected to WooCommerce.com
+   */
+  woocommerce_com_connected: string
+}
+
+/**
+ * Security report
+ */
+export interface SystemStatusSecurity {
+  /**
+   * Whether the store is served over HTTPS
+   */
+  secure_connection: boolean
+
+  /**
+   * Whether errors are hidden from visitors
+   */
+  hide_errors: boolean
+}
+
+/**
+ * WooCommerce page report
+ */
+export interface SystemStatusPage {
+  /**
+   * Page name
+   */
+  page_name: string
+
+  /**
+   * Page ID
+   */
+  page_id: string
+
+  /**
+   * Whether the page is set in the settings
+   */
+  page_set: boolean
+
+  /**
+   * Whether the page exists
+   */
+  page_exists: boolean
+
+  /**
+   * Whether the page is published
+   */
+  page_visible: boolean
+
+  /**
+   * Shortcode the page should contain
+   */
+  shortcode: string
+
+  /**
+   * Block the page should contain
+   */
+  block: string
+
+  /**
+   * Whether the shortcode is required
+   */
+  shortcode_required: boolean
+
+  /**
+   * Whether the page contains the shortcode
+   */
+  shortcode_present: boolean
+
+  /**
+   * Whether the block is required
+   */
+  block_required: boolean
+
+  /**
+   * Whether the page contains the block
+   */
+  block_present: boolean
+}
+
+/**
+ * Complete WooCommerce System Status report
+ */
+export interface WooCommerceSystemStatus {
+  /**
+   * Server environment
+   */
+  environment: SystemStatusEnvironment
+
+  /**
+   * Database
+   */
+  database: SystemStatusDatabase
+
+  /**
+   * Active plugins
+   */
+  active_plugins: SystemStatusPlugin[]
+
+  /**
+   * Inactive plugins
+   */
+  inactive_plugins: SystemStatusPlugin[]
+
+  /**
+   * Drop-ins and must-use plugins
+   */
+  dropins_mu_plugins: {
+    dropins: Array<{ plugin: string; name: string }>
+    mu_plugins: SystemStatusPlugin[]
+  }
+
+  /**
+   * Active theme
+   */
+  theme: SystemStatusTheme
+
+  /**
+   * Store settings
+   */
+  settings: SystemStatusSettings
+
+  /**
+   * Security
+   */
+  security: SystemStatusSecurity
+
+  /**
+   * WooCommerce pages
+   */
+  pages: SystemStatusPage[]
+
+  /**
+   * Post counts by post type
+   */
+  post_type_counts: Array<{ type: string; count: string }>
+}
+
+/**
+ * Known core system status tool IDs
+ */
+export type SystemStatusToolId =
+  | 'clear_transients'
+  | 'clear_expired_transients'
+  | 'delete_orphaned_variations'
+  | 'clear_expired_download_permissions'
+  | 'regenerate_product_lookup_tables'
+  | 'regenerate_product_attributes_lookup_table'
+  | 'recount_terms'
+  | 'reset_roles'
+  | 'clear_sessions'
+  | 'clear_template_cache'
+  | 'install_pages'
+  | 'delete_taxes'
+  | 'regenerate_thumbnails'
+  | 'db_update_routine'
+  | 'verify_db_tables'
+  | string
+
+/**
+ * Complete WooCommerce System Status Tool entity
+ */
+export interface WooCommerceSystemStatusTool {
+  /**
+   * Tool ID (read-only)
+   */
+  id: SystemStatusToolId
+
+  /**
+   * Tool name (read-only)
+   */
+  name: string
+
+  /**
+   * Label of the button that runs the tool (read-only)
+   */
+  action: string
+
+  /**
+   * Tool description (read-only)
+   */
+  description: string
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Result of running a system status tool
+ */
+export interface SystemStatusToolRunResult extends WooCommerceSystemStatusTool {
+  /**
+   * Whether the tool ran successfully
+   */
+  success: boolean
+
+  /**
+   * Message reported by the tool (e.g. '12 transients rows cleared')
+   */
+  message: string
+}
@@ -0,0 +1,262 @@
+/**
+ * Tax Rate and Tax Class types and interfaces for WooCommerce REST API
+ */
+
+import type { Links, ListParams, RequestOptions } from './common'
+
+/**
+ * Complete WooCommerce Tax Rate entity
+ */
+export interface WooCommerceTaxRate {
+  /**
+   * Unique tax rate ID (read-only)
+   */
+  id: number
+
+  /**
+   * ISO 3166 country code ('' matches every country)
+   */
+  country: string
+
+  /**
+   * State code ('' matches every state)
+   */
+  state: string
+
+  /**
+   * First postcode of the rate (deprecated, use `postcodes`)
+   */
+  postcode: string
+
+  /**
+   * First city of the rate (deprecated, use `cities`)
+   */
+  city: string
+
+  /**
+   * Postcodes, wildcards ('902*') and ranges ('90000...90999') the rate applies to
+   */
+  postcodes: string[]
+
+  /**
+   * Cities the rate applies to
+   */
+  cities: string[]
+
+  /**
+   * Tax rate percentage (e.g. '20.0000')
+   */
+  rate: string
+
+  /**
+   * Tax rate name shown to customers (e.g. 'VAT')
+   */
+  name: string
+
+  /**
+   * Priority, only one rate per priority is applied
+   */
+  priority: number
+
+  /**
+   * Whether the rate is compound (applied on top of other taxes)
+   */
+  compound: boolean
+
+  /**
+   * Whether the rate also applies to shipping
+   */
+  shipping: boolean
+
+  /**
+   * Sort order
+   */
+  order: number
+
+  /**
+   * Tax class slug ('standard' for the standard rates)
+   */
+  class: string
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Tax rate creation request
+ */
+export interface CreateTaxRateRequest {
+  /**
+   * ISO 3166 country code
+   */
+  country?: string
+
+  /**
+   * State code
+   */
+  state?: string
+
+  /**
+   * Postcodes, wildcards and ranges
+   */
+  postcodes?: string[]
+
+  /**
+   * Cities
+   */
+  cities?: string[]
+
+  /**
+   * Tax rate percentage (e.g. '20.0000')
+   */
+  rate?: string
+
+  /**
+   * Tax rate name
+   */
+  name?: string
+
+  /**
+   * Priority (default: 1)
+   */
+  priority?: number
+
+  /**
+   * Whether the rate is compound (default: false)
+   */
+  compound?: boolean
+
+  /**
+   * Whether the rate also applies to shipping (default: true)
+   */
+  shipping?: boolean
+
+  /**
+   * Sort order
+   */
+  order?: number
+
+  /**
+   * Tax class slug (default: 'standard')
+   */
+  class?: string
+}
+
+/**
+ * Tax rate update request (all fields optional)
+ */
+export type UpdateTaxRateRequest = Partial<CreateTaxRateRequest>
+
+/**
+ * Tax rate list query parameters
+ */
+export interface ListTaxRatesParams extends ListParams {
+  /**
+   * Limit result set to rates of a specific tax class
+   */
+  class?: string
+
+  /**
+   * Sort by attribute
+   * Options: 'id', 'order', 'priority'
+   */
+  orderby?: 'id' | 'order' | 'priority'
+}
+
+/**
+ * Batch tax rate operation
+ */
+export interface BatchTaxRatesRequest {
+  /**
+   * Tax rates to create
+   */
+  create?: CreateTaxRateRequest[]
+
+  /**
+   * Tax rates to update (must include ID)
+   */
+  update?: Array<UpdateTaxRateRequest & { id: number }>
+
+  /**
+   * Tax rate IDs to delete
+   */
+  delete?: number[]
+}
+
+/**
+ * Batch tax rate operation response
+ */
+export interface BatchTaxRatesResponse {
+  /**
+   * Created tax rates
+   */
+  create?: WooCommerceTaxRate[]
+
+  /**
+   * Updated tax rates
+   */
+  update?: WooCommerceTaxRate[]
+
+  /**
+   * Deleted tax rates
+   */
+  delete?: WooCommerceTaxRate[]
+}
+
+/**
+ * Options for importing a tax rate table
+ */
+export interface ImportTaxRatesOptions extends RequestOptions {
+  /**
+   * Delete the existing rates of every tax class present in the table before importing
+   * (default: false, rates are added to the existing ones)
+   */
+  replace?: boolean
+}
+
+/**
+ * Result of a tax rate table import
+ */
+export interface ImportTaxRatesResult {
+  /**
+   * Created tax rates, in table order
+   */
+  created: WooCommerceTaxRate[]
+
+  /**
+   * IDs of the rates deleted because of `replace`
+   */
+  deleted: number[]
+}
+
+/**
+ * Complete WooCommerce Tax Class entity
+ */
+export interface WooCommerceTaxClass {
+  /**
+   * Tax class slug (read-only)
+   */
+  slug: string
+
+  /**
+   * Tax class name
+   */
+  name: string
+
+  /**
+   * HATEOAS links (read-only)
+   */
+  _links?: Links
+}
+
+/**
+ * Tax class creation request
+ */
+export interface CreateTaxClassRequest {
+  /**
+   * Tax class name (required)
+   */
+  name: string
+}
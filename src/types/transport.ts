@@ -0,0 +1,65 @@
+/**
+ * HTTP transport types for the WooCommerce SDK
+ */
+
+/**
+ * Fetch-compatible function (global fetch, undici's fetch, node-fetch, etc.)
+ */
+export type FetchLike = (input: string, init: RequestInit) => Promise<Response>
+
+/**
+ * Fully prepared request handed to the transport
+ * Authentication has already been applied to the URL or headers
+ */
+export interface TransportRequest {
+  /**
+   * Absolute request URL
+   */
+  url: string
+
+  /**
+   * HTTP method (uppercase)
+   */
+  method: string
+
+  /**
+   * Request headers
+   */
+  headers: Record<string, string>
+
+  /**
+   * Request body (JSON string for POST/PUT requests)
+   */
+  body?: RequestInit['body']
+
+  /**
+   * Signal aborted when the request times out
+   */
+  signal: AbortSignal
+}
+
+/**
+ * Transport used by every resource client to send HTTP requests
+ *
+ * Implement this interface to plug in a proxy agent, a request recorder or an
+ * in-memory stub. Responses must follow the Fetch API `Response` interface;
+ * non-2xx responses are mapped to SDK errors by the client.
+ *
+ * @example
+ * ```typescript
+ * const stub: WooCommerceTransport = {
+ *   send: async request =>
+ *     new Response(JSON.stringify([{ id: 1 }]), {
+ *       status: 200,
+ *       headers: { 'content-type': 'application/json' },
+ *     }),
+ * }
+ * ```
+ */
+export interface WooCommerceTransport {
+  /**
+   * Sends a request and resolves with the response
+   * Should reject (e.g. with an `AbortError`) when the signal is aborted
+   */
+  send(request: TransportRequest): Promise<Response>
+}
@@ -2,10 +2,17 @@
  * Webhook types and interfaces for WooCommerce REST API
  */
 
-import type { Links, ListParams } from './common'
+import type { Links, ListParams, RequestOptions } from './common'
+import type { FetchLike } from './transport'
+import type { WebhookRouter } from '../webhooks/router'
+import type { WooCommerceCoupon } from './coupons'
+import type { WooCommerceCustomer } from './customers'
+import type { WooCommerceOrder } from './orders'
+import type { WooCommerceProduct } from './products'
 
 /**
  * Webhook topic enumeration (resource.event format)
+ * `action.<hook>` topics fire on the named WordPress action
  */
 export type WebhookTopic =
   | 'coupon.created'
@@ -24,6 +31,7 @@ export type WebhookTopic =
   | 'product.deleted'
   | 'product.restored'
   | 'action'
+  | `action.${string}`
 
 /**
  * Webhook status enumeration
@@ -272,114 +280,304 @@ export interface WebhookDelivery {
 }
 
 /**
- * Webhook payload for coupon events
+ * Headers of an incoming webhook delivery
+ * Accepts a Fetch API `Headers` object or Node's `IncomingHttpHeaders`
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>
+
+/**
+ * Incoming webhook delivery as received by the endpoint
  */
-export interface CouponWebhookPayload {
+export interface RawWebhookRequest {
   /**
-   * Webhook ID
+   * Request headers
    */
-  webhook_id: number
+  headers: WebhookHeaders
 
   /**
-   * Event name
+   * Raw request body, exactly as received (before any JSON parsing)
    */
-  event: 'created' | 'updated' | 'deleted' | 'restored'
+  body: string | Uint8Array
+}
 
+/**
+ * Reason an incoming webhook delivery was rejected
+ */
+export type WebhookErrorReason =
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'missing_headers'
+  | 'invalid_payload'
+
+/**
+ * Body delivered for `*.deleted` topics
+ */
+export interface DeletedWebhookResource {
   /**
-   * Resource type
+   * ID of the deleted resource
    */
-  resource: 'coupon'
+  id: number
+}
 
+/**
+ * Body delivered for `action.*` topics
+ */
+export interface ActionWebhookData {
   /**
-   * Coupon data
+   * Name of the WordPress action that fired
    */
-  data: any // Using any for payload data as it varies
+  action: string
+
+  /**
+   * First argument passed to the action
+   */
+  arg: unknown
 }
 
 /**
- * Webhook payload for customer events
+ * Body delivered for each webhook topic
+ * WooCommerce sends the resource itself, or only its ID once deleted
+ */
+export interface WebhookPayloadMap {
+  'coupon.created': WooCommerceCoupon
+  'coupon.updated': WooCommerceCoupon
+  'coupon.deleted': DeletedWebhookResource
+  'coupon.restored': WooCommerceCoupon
+  'customer.created': WooCommerceCustomer
+  'customer.updated': WooCommerceCustomer
+  'customer.deleted': DeletedWebhookResource
+  'order.created': WooCommerceOrder
+  'order.updated': WooCommerceOrder
+  'order.deleted': DeletedWebhookResource
+  'order.restored': WooCommerceOrder
+  'product.created': WooCommerceProduct
+  'product.updated': WooCommerceProduct
+  'product.deleted': DeletedWebhookResource
+  'product.restored': WooCommerceProduct
+  action: ActionWebhookData
+  [topic: `action.${string}`]: ActionWebhookData
+}
+
+/**
+ * Resource of a webhook topic (`X-WC-Webhook-Resource`)
+ */
+export type WebhookTopicResource<T extends WebhookTopic> = T extends 'action' | `action.${string}`
+  ? 'action'
+  : T extends `${infer R}.${string}`
+  ? R
+  : never
+
+/**
+ * Event of a webhook topic (`X-WC-Webhook-Event`), the action name for `action.*` topics
  */
-export interface CustomerWebhookPayload {
+export type WebhookTopicEvent<T extends WebhookTopic> = T extends `${string}.${infer E}`
+  ? E
+  : string
+
+/**
+ * Webhook delivery for a single topic: delivery metadata from the `X-WC-Webhook-*`
+ * headers along with the typed body
+ */
+export interface TypedWebhookPayload<T extends WebhookTopic> {
   /**
    * Webhook ID
    */
   webhook_id: number
 
   /**
-   * Event name
+   * Delivery ID
+   */
+  delivery_id: string
+
+  /**
+   * Webhook topic
    */
-  event: 'created' | 'updated' | 'deleted'
+  topic: T
 
   /**
    * Resource type
    */
-  resource: 'customer'
+  resource: WebhookTopicResource<T>
+
+  /**
+   * Event name
+   */
+  event: WebhookTopicEvent<T>
+
+  /**
+   * Store URL that sent the delivery
+   */
+  source?: string
 
   /**
-   * Customer data
+   * Delivered body
    */
-  data: any
+  data: WebhookPayloadMap[T]
 }
 
+/**
+ * Union of all webhook payloads, narrowed by `topic` (or `resource`)
+ *
+ * @example
+ * ```typescript
+ * if (payload.topic === 'order.updated') {
+ *   payload.data.status // WooCommerceOrder
+ * } else if (payload.topic === 'order.deleted') {
+ *   payload.data.id // { id } only
+ * }
+ * ```
+ */
+export type WebhookPayload = {
+  [T in keyof WebhookPayloadMap]: TypedWebhookPayload<T>
+}[keyof WebhookPayloadMap]
+
+/**
+ * Webhook payload for coupon events
+ */
+export type CouponWebhookPayload = Extract<WebhookPayload, { resource: 'coupon' }>
+
+/**
+ * Webhook payload for customer events
+ */
+export type CustomerWebhookPayload = Extract<WebhookPayload, { resource: 'customer' }>
+
 /**
  * Webhook payload for order events
  */
-export interface OrderWebhookPayload {
+export type OrderWebhookPayload = Extract<WebhookPayload, { resource: 'order' }>
+
+/**
+ * Webhook payload for product events
+ */
+export type ProductWebhookPayload = Extract<WebhookPayload, { resource: 'product' }>
+
+/**
+ * Webhook payload for action events
+ */
+export type ActionWebhookPayload = Extract<WebhookPayload, { resource: 'action' }>
+
+/**
+ * Topic pattern accepted by `WebhookRouter.on`: a topic, `resource.*`, `*.event` or `*`
+ */
+export type WebhookTopicPattern =
+  | WebhookTopic
+  | '*'
+  | `${WebhookTopicResource<WebhookTopic>}.*`
+  | `*.${'created' | 'updated' | 'deleted' | 'restored'}`
+
+/**
+ * Payloads matched by a topic pattern
+ */
+export type WebhookPatternPayload<P extends WebhookTopicPattern> = P extends '*'
+  ? WebhookPayload
+  : P extends `*.${infer E}`
+  ? Extract<WebhookPayload, { event: E }>
+  : P extends `${infer R}.*`
+  ? Extract<WebhookPayload, { resource: R }>
+  : P extends WebhookTopic
+  ? TypedWebhookPayload<P>
+  : never
+
+/**
+ * Handler registered for a topic pattern
+ */
+export type WebhookHandler<P extends WebhookPayload = WebhookPayload> = (
+  payload: P
+) => void | Promise<void>
+
+/**
+ * Router middleware, runs around the handlers of every delivery
+ * Skip the handlers (e.g. for a duplicate delivery) by not calling `next`
+ */
+export type WebhookRouterMiddleware = (
+  payload: WebhookPayload,
+  next: () => Promise<void>
+) => void | Promise<void>
+
+/**
+ * How handler errors are surfaced by `WebhookRouter`
+ * - `'throw'`: stop at the first failing handler and reject
+ * - `'collect'`: run all matching handlers, then reject with an `AggregateError`
+ * - `'ignore'`: run all matching handlers and resolve (errors go to `onError` only)
+ */
+export type WebhookErrorPolicy = 'throw' | 'collect' | 'ignore'
+
+/**
+ * Webhook router configuration
+ */
+export interface WebhookRouterOptions {
   /**
-   * Webhook ID
+   * Webhook secret used to verify deliveries
    */
-  webhook_id: number
+  secret: string
 
   /**
-   * Event name
+   * Handler error policy (default: 'throw', so the delivery fails and WooCommerce retries it)
    */
-  event: 'created' | 'updated' | 'deleted' | 'restored'
+  errorPolicy?: WebhookErrorPolicy
 
   /**
-   * Resource type
+   * Called for every handler error, whatever the policy
    */
-  resource: 'order'
+  onError?: (error: unknown, payload: WebhookPayload) => void | Promise<void>
 
   /**
-   * Order data
+   * Called for the unsigned ping WooCommerce sends when a webhook is created or activated
    */
-  data: any
+  onPing?: (webhookId: number) => void | Promise<void>
 }
 
 /**
- * Webhook payload for product events
+ * Outcome of a webhook request handled by `WebhookRouter`
  */
-export interface ProductWebhookPayload {
-  /**
-   * Webhook ID
-   */
-  webhook_id: number
+export type WebhookDispatchResult =
+  | {
+      /**
+       * Ping sent by WooCommerce when a webhook is saved
+       */
+      type: 'ping'
+      webhookId: number
+    }
+  | {
+      /**
+       * Verified delivery
+       */
+      type: 'delivery'
+      payload: WebhookPayload
+
+      /**
+       * Number of handlers that matched the topic
+       */
+      handled: number
+    }
 
+/**
+ * Options for the HTTP webhook handlers
+ */
+export interface WebhookHandlerOptions {
   /**
-   * Event name
+   * Respond 200 even when a handler fails (default: false)
+   * WooCommerce disables a webhook after repeated failed deliveries; enable this when
+   * failures are recovered another way (e.g. by replaying deliveries)
    */
-  event: 'created' | 'updated' | 'deleted' | 'restored'
+  acknowledgeErrors?: boolean
+}
 
+/**
+ * HTTP response computed for a webhook request
+ */
+export interface WebhookHttpResponse {
   /**
-   * Resource type
+   * HTTP status code
    */
-  resource: 'product'
+  status: number
 
   /**
-   * Product data
+   * JSON response body
    */
-  data: any
+  body: string
 }
 
-/**
- * Union type for all webhook payloads
- */
-export type WebhookPayload =
-  | CouponWebhookPayload
-  | CustomerWebhookPayload
-  | OrderWebhookPayload
-  | ProductWebhookPayload
-
 /**
  * Batch webhook operation
  */
@@ -419,3 +617,206 @@ export interface BatchWebhooksResponse {
    */
   delete: WooCommerceWebhook[]
 }
+
+/**
+ * Webhook subscription that should exist on the store
+ * Matched to existing webhooks by `topic` and `delivery_url`
+ */
+export interface DesiredWebhook {
+  /**
+   * Webhook name
+   */
+  name: string
+
+  /**
+   * Webhook topic
+   */
+  topic: WebhookTopic
+
+  /**
+   * Webhook delivery URL
+   */
+  delivery_url: string
+
+  /**
+   * Secret key (compared only when the store returns it)
+   */
+  secret?: string
+
+  /**
+   * Webhook status (default: 'active', which reactivates disabled webhooks)
+   */
+  status?: WebhookStatus
+
+  /**
+   * WooCommerce action names (for 'action' topic only)
+   */
+  hooks?: string[]
+}
+
+/**
+ * Options for `WebhooksClient.ensure`
+ */
+export interface EnsureWebhooksOptions extends RequestOptions {
+  /**
+   * Compute the plan without applying it (default: false)
+   */
+  dryRun?: boolean
+
+  /**
+   * Delete webhooks that match no desired subscription: all of them, or those
+   * selected by the predicate (default: false)
+   * Duplicates of a desired subscription are always deleted
+   */
+  prune?: boolean | ((webhook: WooCommerceWebhook) => boolean)
+}
+
+/**
+ * Changes needed to reconcile the store webhooks with the desired subscriptions
+ */
+export interface WebhookReconcilePlan {
+  /**
+   * Webhooks to create
+   */
+  create: CreateWebhookRequest[]
+
+  /**
+   * Webhooks to update, with only the changed fields
+   */
+  update: Array<UpdateWebhookRequest & { id: number }>
+
+  /**
+   * Webhook IDs to delete
+   */
+  delete: number[]
+
+  /**
+   * IDs of webhooks already matching a desired subscription
+   */
+  unchanged: number[]
+}
+
+/**
+ * Result of `WebhooksClient.ensure`
+ */
+export interface EnsureWebhooksResult {
+  /**
+   * Reconciliation plan
+   */
+  plan: WebhookReconcilePlan
+
+  /**
+   * Whether the plan was applied (false for dry runs and empty plans)
+   */
+  applied: boolean
+
+  /**
+   * Batch response when the plan was applied
+   */
+  result?: BatchWebhooksResponse
+}
+
+/**
+ * Options for `WebhooksClient.findFailedDeliveries`
+ */
+export interface FindFailedDeliveriesOptions extends RequestOptions {
+  /**
+   * Only deliveries logged at or after this date
+   */
+  after?: Date | string
+
+  /**
+   * Only deliveries logged before this date
+   */
+  before?: Date | string
+
+  /**
+   * Only deliveries of these webhooks (default: all webhooks)
+   */
+  webhookIds?: number[]
+
+  /**
+   * Number of webhooks whose deliveries are fetched in parallel (default: 1)
+   */
+  concurrency?: number
+}
+
+/**
+ * Failed delivery along with its webhook
+ */
+export interface FailedWebhookDelivery {
+  /**
+   * Webhook that sent the delivery
+   */
+  webhook: WooCommerceWebhook
+
+  /**
+   * Delivery log record
+   */
+  delivery: WebhookDelivery
+}
+
+/**
+ * Local handler receiving replayed deliveries
+ */
+export type WebhookReplayHandler = (request: RawWebhookRequest) => unknown
+
+/**
+ * Options for replaying webhook deliveries
+ */
+export interface WebhookReplayOptions {
+  /**
+   * Webhook secret used to sign the replayed deliveries
+   */
+  secret: string
+
+  /**
+   * Endpoint URL, webhook router or local handler receiving the deliveries
+   */
+  target: string | WebhookRouter | WebhookReplayHandler
+
+  /**
+   * Fetch implementation for URL targets (default: global `fetch`)
+   */
+  fetch?: FetchLike
+
+  /**
+   * Number of deliveries replayed in parallel (default: 1, preserving delivery order)
+   */
+  concurrency?: number
+
+  /**
+   * Abort signal for URL targets
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Outcome of a replayed delivery
+ */
+export interface WebhookReplayResult {
+  /**
+   * Webhook ID
+   */
+  webhookId: number
+
+  /**
+   * Delivery ID
+   */
+  deliveryId: number
+
+  /**
+   * HTTP status returned by the target (0 if the request could not be sent)
+   */
+  status: number
+
+  /**
+   * Whether the target accepted the delivery (2xx)
+   */
+  ok: boolean
+
+  /**
+   * Error raised by the target, if any
+   */
+  error?: unknown
+}
@@ -2,6 +2,8 @@
  * Utility functions for WooCommerce SDK
  */
 
+import type { PaginationLinks } from '../types/common'
+
 /**
  * Builds a query string from an object of parameters
  * Arrays are encoded with bracket notation (key[]=value1&key[]=value2)
@@ -39,10 +41,27 @@ export function buildQueryString(params: Record<string, any>): string {
  * Delays execution for a specified number of milliseconds
  *
  * @param ms - Number of milliseconds to sleep
- * @returns Promise that resolves after the delay
+ * @param signal - Optional signal that cancels the delay
+ * @returns Promise that resolves after the delay, or rejects if the signal is aborted
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(signal!.reason)
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
 
 /**
@@ -76,6 +95,92 @@ export async function retryWithBackoff<T>(
   throw lastError
 }
 
+/**
+ * Calculates an exponential backoff delay with optional jitter
+ *
+ * @param attempt - Zero-based retry attempt
+ * @param baseDelay - Base delay in milliseconds
+ * @param maxDelay - Upper bound for the delay in milliseconds
+ * @param jitter - Jitter strategy (default: 'full')
+ * @returns Delay in milliseconds
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  jitter: 'full' | 'equal' | 'none' = 'full'
+): number {
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt))
+
+  switch (jitter) {
+    case 'full':
+      return Math.floor(Math.random() * exponential)
+    case 'equal':
+      return Math.floor(exponential / 2 + Math.random() * (exponential / 2))
+    default:
+      return exponential
+  }
+}
+
+/**
+ * Parses a `Retry-After` header value
+ * Supports both delay-seconds and HTTP-date formats
+ *
+ * @param value - Header value
+ * @returns Delay in seconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value.trim())
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.ceil(seconds)
+  }
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+/**
+ * Maps items through an async function with a bounded number of concurrent calls
+ * Results preserve the order of the input items. After the first failure no further
+ * items are started, calls already in flight are left to settle.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum number of concurrent calls
+ * @param fn - Async mapping function
+ * @returns Results in input order
+ * @throws The first error thrown by `fn`
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+  let failed = false
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++
+      try {
+        results[index] = await fn(items[index]!, index)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker)
+  await Promise.all(workers)
+
+  return results
+}
+
 /**
  * Normalizes a URL by ensuring it has the correct protocol and no trailing slash
  *
@@ -110,3 +215,28 @@ export function parsePaginationHeaders(headers: Headers): {
 
   return { total, totalPages }
 }
+
+/**
+ * Parses an RFC 8288 `Link` header into pagination links
+ *
+ * @param header - Link header value
+ * @returns Links keyed by relation (next, prev, first, last)
+ */
+export function parseLinkHeader(header: string | null): PaginationLinks {
+  const links: PaginationLinks = {}
+  if (!header) return links
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]*)>\s*;\s*rel="?([^";]+)"?/)
+    if (!match) continue
+
+    const [, url, rels] = match
+    for (const rel of rels!.trim().split(/\s+/)) {
+      if (rel === 'next' || rel === 'prev' || rel === 'first' || rel === 'last') {
+        links[rel] = url
+      }
+    }
+  }
+
+  return links
+}
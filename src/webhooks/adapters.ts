@@ -0,0 +1,223 @@
+/**
+ * HTTP adapters for receiving webhook deliveries with a WebhookRouter
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type {
+  RawWebhookRequest,
+  WebhookHandlerOptions,
+  WebhookHttpResponse,
+} from '../types/webhooks'
+import { WooCommerceWebhookError } from '../errors'
+import { getWebhookHeader } from './parser'
+import type { WebhookRouter } from './router'
+
+/**
+ * Express/Connect request, possibly processed by body parsers
+ */
+type ParsedIncomingMessage = IncomingMessage & { body?: unknown; rawBody?: unknown }
+
+/**
+ * Formats a JSON response
+ *
+ * @param status - HTTP status code
+ * @param body - Response body
+ * @returns HTTP response
+ */
+function jsonResponse(status: number, body: Record<string, unknown>): WebhookHttpResponse {
+  return { status, body: JSON.stringify(body) }
+}
+
+/**
+ * Runs a raw webhook request through a router and computes the HTTP response
+ *
+ * Pings and deliveries (even without a matching handler) get a 200, which WooCommerce
+ * requires to save a webhook and to keep it active. Rejected requests get the status of
+ * the `WooCommerceWebhookError`, failing handlers a 500 unless `acknowledgeErrors` is set.
+ *
+ * @param router - Webhook router
+ * @param request - Raw request headers and body
+ * @param options - Handler options
+ * @returns HTTP response to send
+ */
+export async function handleWebhookRequest(
+  router: WebhookRouter,
+  request: RawWebhookRequest,
+  options: WebhookHandlerOptions = {}
+): Promise<WebhookHttpResponse> {
+  try {
+    const result = await router.handle(request)
+    return jsonResponse(200, { received: true, type: result.type })
+  } catch (error) {
+    if (error instanceof WooCommerceWebhookError) {
+      return jsonResponse(error.statusCode ?? 400, { error: error.message, reason: error.reason })
+    }
+
+    return options.acknowledgeErrors
+      ? jsonResponse(200, { received: true, type: 'delivery' })
+      : jsonResponse(500, { error: 'Webhook handler failed' })
+  }
+}
+
+/**
+ * Reads the remaining body of a Node request stream
+ *
+ * @param req - Incoming request
+ * @returns Raw body bytes
+ */
+async function readBody(req: IncomingMessage): Promise<Uint8Array> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Recovers the raw body of a request that may have gone through body parsers
+ *
+ * Uses, in order: a `rawBody` captured by a parser `verify` hook, a raw body left by
+ * `express.raw()`/`express.text()`, the unread request stream, or a ping parsed by
+ * `express.urlencoded()` (pings are unsigned, so their body can be rebuilt).
+ *
+ * @param req - Incoming request
+ * @returns Raw body
+ * @throws {Error} If a JSON parser consumed the body without keeping the raw bytes
+ */
+async function resolveRawBody(req: ParsedIncomingMessage): Promise<string | Uint8Array> {
+  if (typeof req.rawBody === 'string' || req.rawBody instanceof Uint8Array) {
+    return req.rawBody
+  }
+
+  if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+    return req.body
+  }
+
+  if (!req.readableEnded) {
+    return readBody(req)
+  }
+
+  const body = req.body as Record<string, unknown> | undefined
+  if (
+    body &&
+    Object.keys(body).length === 1 &&
+    typeof body.webhook_id === 'string' &&
+    !getWebhookHeader(req.headers, 'x-wc-webhook-signature')
+  ) {
+    return `webhook_id=${body.webhook_id}`
+  }
+
+  throw new Error(
+    'Webhook raw body is unavailable: mount the webhook handler before express.json(), ' +
+      "use express.raw({ type: 'application/json' }) or keep the raw body in req.rawBody"
+  )
+}
+
+/**
+ * Creates a handler for `http.createServer`
+ *
+ * @param router - Webhook router
+ * @param options - Handler options
+ * @returns Node request listener
+ *
+ * @example
+ * ```typescript
+ * http.createServer(createNodeWebhookHandler(router)).listen(3000)
+ * ```
+ */
+export function createNodeWebhookHandler(
+  router: WebhookRouter,
+  options: WebhookHandlerOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let response: WebhookHttpResponse
+    try {
+      response =
+        req.method === 'POST'
+          ? await handleWebhookRequest(
+              router,
+              { headers: req.headers, body: await readBody(req) },
+              options
+            )
+          : jsonResponse(405, { error: 'Method not allowed' })
+    } catch {
+      // http.createServer does not handle rejections of its listener, so a client
+      // aborting mid-body must not escape as an unhandled rejection
+      if (res.writableEnded || res.destroyed) {
+        req.destroy()
+        return
+      }
+      response = jsonResponse(400, { error: 'Failed to read request body' })
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json' })
+    res.end(response.body)
+  }
+}
+
+/**
+ * Creates an Express/Connect middleware
+ * Works with or without body parsers mounted before it, as long as the raw body is
+ * still available (see `express.raw()` or a `verify` hook storing `req.rawBody`)
+ *
+ * @param router - Webhook router
+ * @param options - Handler options
+ * @returns Express/Connect middleware
+ *
+ * @example
+ * ```typescript
+ * app.post('/webhooks/woocommerce', createExpressWebhookHandler(router))
+ * app.use(express.json())
+ * ```
+ */
+export function createExpressWebhookHandler(
+  router: WebhookRouter,
+  options: WebhookHandlerOptions = {}
+): (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => Promise<void> {
+  return async (req, res, next) => {
+    let body: string | Uint8Array
+    try {
+      body = await resolveRawBody(req)
+    } catch (error) {
+      next(error)
+      return
+    }
+
+    const response = await handleWebhookRequest(router, { headers: req.headers, body }, options)
+    res.writeHead(response.status, { 'Content-Type': 'application/json' })
+    res.end(response.body)
+  }
+}
+
+/**
+ * Creates a Fetch API handler for fetch-based runtimes (Workers, Deno, Bun, Next.js routes)
+ *
+ * @param router - Webhook router
+ * @param options - Handler options
+ * @returns Request handler
+ *
+ * @example
+ * ```typescript
+ * export const POST = createFetchWebhookHandler(router)
+ * ```
+ */
+export function createFetchWebhookHandler(
+  router: WebhookRouter,
+  options: WebhookHandlerOptions = {}
+): (request: Request) => Promise<Response> {
+  return async request => {
+    const response =
+      request.method === 'POST'
+        ? await handleWebhookRequest(
+            router,
+            { headers: request.headers, body: new Uint8Array(await request.arrayBuffer()) },
+            options
+          )
+        : jsonResponse(405, { error: 'Method not allowed' })
+
+    return new Response(response.body, {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Helpers for receiving WooCommerce webhook deliveries
+ */
+
+export { computeWebhookSignature, verifyWebhookSignature } from './signature'
+export { getWebhookHeader, parseWebhookPing, parseWebhookRequest } from './parser'
+export { WebhookRouter } from './router'
+export {
+  handleWebhookRequest,
+  createNodeWebhookHandler,
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+} from './adapters'
+export { buildReplayRequest, replayWebhookDelivery, replayWebhookDeliveries } from './replay'
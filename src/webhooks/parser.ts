@@ -0,0 +1,107 @@
+/**
+ * Parsing of incoming webhook deliveries
+ */
+
+import type { RawWebhookRequest, WebhookHeaders, WebhookPayload } from '../types/webhooks'
+import { WooCommerceWebhookError } from '../errors'
+import { verifyWebhookSignature } from './signature'
+
+/**
+ * Reads a header case-insensitively from Fetch API or Node headers
+ *
+ * @param headers - Request headers
+ * @param name - Lowercase header name
+ * @returns Header value, or undefined if absent
+ */
+export function getWebhookHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined
+  }
+
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name)
+  const value = entry?.[1]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Decodes a raw body as UTF-8 text
+ *
+ * @param body - Raw request body
+ * @returns Body text
+ */
+function decodeBody(body: string | Uint8Array): string {
+  return typeof body === 'string' ? body : new TextDecoder().decode(body)
+}
+
+/**
+ * Detects the ping WooCommerce sends when a webhook is created or activated
+ * The ping is an unsigned form post with a `webhook_id` field and no delivery headers
+ *
+ * @param request - Raw request headers and body
+ * @returns Webhook ID of the ping, or undefined if the request is not a ping
+ */
+export function parseWebhookPing(request: RawWebhookRequest): number | undefined {
+  if (
+    getWebhookHeader(request.headers, 'x-wc-webhook-signature') ||
+    getWebhookHeader(request.headers, 'x-wc-webhook-topic')
+  ) {
+    return undefined
+  }
+
+  const match = /^webhook_id=(\d+)$/.exec(decodeBody(request.body).trim())
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Verifies and parses an incoming webhook delivery
+ *
+ * @param request - Raw request headers and body
+ * @param secret - Webhook secret
+ * @returns Webhook payload with delivery metadata
+ * @throws {WooCommerceWebhookError} If the request is unsigned, tampered with or malformed
+ *
+ * @example
+ * ```typescript
+ * const payload = parseWebhookRequest({ headers: req.headers, body: rawBody }, secret)
+ * if (payload.resource === 'order') {
+ *   await syncOrder(payload.data)
+ * }
+ * ```
+ */
+export function parseWebhookRequest(request: RawWebhookRequest, secret: string): WebhookPayload {
+  const signature = getWebhookHeader(request.headers, 'x-wc-webhook-signature')
+  if (!signature) {
+    throw new WooCommerceWebhookError('Missing webhook signature', 'missing_signature')
+  }
+
+  if (!verifyWebhookSignature(request.body, signature, secret)) {
+    throw new WooCommerceWebhookError('Invalid webhook signature', 'invalid_signature')
+  }
+
+  const topic = getWebhookHeader(request.headers, 'x-wc-webhook-topic')
+  const resource = getWebhookHeader(request.headers, 'x-wc-webhook-resource')
+  const event = getWebhookHeader(request.headers, 'x-wc-webhook-event')
+  const webhookId = getWebhookHeader(request.headers, 'x-wc-webhook-id')
+  const deliveryId = getWebhookHeader(request.headers, 'x-wc-webhook-delivery-id')
+
+  if (!topic || !resource || !event || !webhookId || !deliveryId) {
+    throw new WooCommerceWebhookError('Missing webhook headers', 'missing_headers', 400)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(decodeBody(request.body))
+  } catch {
+    throw new WooCommerceWebhookError('Invalid webhook payload', 'invalid_payload', 400)
+  }
+
+  return {
+    webhook_id: Number(webhookId),
+    delivery_id: deliveryId,
+    topic,
+    resource,
+    event,
+    source: getWebhookHeader(request.headers, 'x-wc-webhook-source'),
+    data,
+  } as WebhookPayload
+}
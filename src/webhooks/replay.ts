@@ -0,0 +1,110 @@
+/**
+ * Replay of logged webhook deliveries
+ */
+
+import type {
+  FailedWebhookDelivery,
+  RawWebhookRequest,
+  WebhookReplayOptions,
+  WebhookReplayResult,
+} from '../types/webhooks'
+import { mapWithConcurrency } from '../utils'
+import { handleWebhookRequest } from './adapters'
+import { WebhookRouter } from './router'
+import { computeWebhookSignature } from './signature'
+
+/**
+ * Rebuilds the request of a logged delivery with a fresh signature
+ * Keeps the original delivery ID so receivers can deduplicate replays
+ *
+ * @param failed - Delivery log record and its webhook
+ * @param secret - Webhook secret
+ * @returns Raw webhook request
+ */
+export function buildReplayRequest(
+  failed: FailedWebhookDelivery,
+  secret: string
+): RawWebhookRequest & { headers: Record<string, string>; body: string } {
+  const { webhook, delivery } = failed
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'x-wc-webhook-topic': webhook.topic,
+    'x-wc-webhook-resource': webhook.resource,
+    'x-wc-webhook-event': webhook.event,
+    'x-wc-webhook-id': String(webhook.id),
+    'x-wc-webhook-delivery-id': String(delivery.id),
+  }
+
+  // Logged headers take precedence, they describe the original delivery exactly
+  for (const [name, value] of Object.entries(delivery.request_headers ?? {})) {
+    const key = name.toLowerCase()
+    if (key.startsWith('x-wc-webhook-') || key === 'content-type') {
+      headers[key] = String(value)
+    }
+  }
+
+  headers['x-wc-webhook-signature'] = computeWebhookSignature(delivery.request_body, secret)
+
+  return { headers, body: delivery.request_body }
+}
+
+/**
+ * Replays a logged delivery to an endpoint URL, a webhook router or a local handler
+ *
+ * @param failed - Delivery log record and its webhook
+ * @param options - Secret, target and fetch options
+ * @returns Outcome of the replay
+ */
+export async function replayWebhookDelivery(
+  failed: FailedWebhookDelivery,
+  options: WebhookReplayOptions
+): Promise<WebhookReplayResult> {
+  const request = buildReplayRequest(failed, options.secret)
+  const ids = { webhookId: failed.webhook.id, deliveryId: failed.delivery.id }
+  const { target } = options
+
+  try {
+    if (typeof target === 'string') {
+      const fetchFn = options.fetch ?? ((input, init) => fetch(input, init))
+      const response = await fetchFn(target, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal: options.signal,
+      })
+      return { ...ids, status: response.status, ok: response.ok }
+    }
+
+    if (target instanceof WebhookRouter) {
+      const response = await handleWebhookRequest(target, request)
+      return { ...ids, status: response.status, ok: response.status < 300 }
+    }
+
+    await target(request)
+    return { ...ids, status: 200, ok: true }
+  } catch (error) {
+    return { ...ids, status: typeof target === 'string' ? 0 : 500, ok: false, error }
+  }
+}
+
+/**
+ * Replays logged deliveries, e.g. those returned by `WebhooksClient.findFailedDeliveries`
+ *
+ * @param deliveries - Delivery log records and their webhooks
+ * @param options - Secret, target, concurrency and fetch options
+ * @returns Outcome of each replay, in input order
+ *
+ * @example
+ * ```typescript
+ * const results = await replayWebhookDeliveries(failed, { secret, target: router })
+ * const stillFailing = results.filter(result => !result.ok)
+ * ```
+ */
+export async function replayWebhookDeliveries(
+  deliveries: FailedWebhookDelivery[],
+  options: WebhookReplayOptions
+): Promise<WebhookReplayResult[]> {
+  return mapWithConcurrency(deliveries, options.concurrency ?? 1, failed =>
+    replayWebhookDelivery(failed, options)
+  )
+}
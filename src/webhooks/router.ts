@@ -0,0 +1,159 @@
+/**
+ * Topic-based dispatcher for incoming webhook deliveries
+ */
+
+import type {
+  RawWebhookRequest,
+  WebhookDispatchResult,
+  WebhookErrorPolicy,
+  WebhookHandler,
+  WebhookPatternPayload,
+  WebhookPayload,
+  WebhookRouterMiddleware,
+  WebhookRouterOptions,
+  WebhookTopicPattern,
+} from '../types/webhooks'
+import { parseWebhookPing, parseWebhookRequest } from './parser'
+
+/**
+ * Checks whether a delivery matches a topic pattern
+ *
+ * @param pattern - Topic, `resource.*`, `*.event` or `*`
+ * @param payload - Webhook payload
+ * @returns True if the pattern matches
+ */
+function matchesTopic(pattern: WebhookTopicPattern, payload: WebhookPayload): boolean {
+  if (pattern === '*' || pattern === payload.topic) return true
+  if (pattern.endsWith('.*')) return payload.resource === pattern.slice(0, -2)
+  if (pattern.startsWith('*.')) return payload.event === pattern.slice(2)
+  return false
+}
+
+/**
+ * Verifies webhook deliveries and dispatches them to handlers registered per topic
+ *
+ * @example
+ * ```typescript
+ * const router = new WebhookRouter({ secret: process.env.WC_WEBHOOK_SECRET! })
+ *
+ * router
+ *   .on('order.created', async payload => {
+ *     await fulfil(payload.data) // WooCommerceOrder
+ *   })
+ *   .on('product.*', async payload => {
+ *     await reindex(payload.data)
+ *   })
+ *
+ * const result = await router.handle({ headers: req.headers, body: rawBody })
+ * ```
+ */
+export class WebhookRouter {
+  private readonly secret: string
+  private readonly errorPolicy: WebhookErrorPolicy
+  private readonly onError?: WebhookRouterOptions['onError']
+  private readonly onPing?: WebhookRouterOptions['onPing']
+  private readonly routes: Array<{ pattern: WebhookTopicPattern; handler: WebhookHandler }> = []
+  private readonly middleware: WebhookRouterMiddleware[] = []
+
+  constructor(options: WebhookRouterOptions) {
+    this.secret = options.secret
+    this.errorPolicy = options.errorPolicy ?? 'throw'
+    this.onError = options.onError
+    this.onPing = options.onPing
+  }
+
+  /**
+   * Registers a handler for a topic pattern
+   * Handlers run in registration order
+   *
+   * @param pattern - Topic (e.g. 'order.created'), `resource.*`, `*.event` or `*`
+   * @param handler - Handler receiving the payload narrowed to the pattern
+   * @returns The router, for chaining
+   */
+  on<P extends WebhookTopicPattern>(
+    pattern: P,
+    handler: WebhookHandler<WebhookPatternPayload<P>>
+  ): this {
+    this.routes.push({ pattern, handler: handler as WebhookHandler })
+    return this
+  }
+
+  /**
+   * Adds middleware that runs around the handlers of every delivery
+   *
+   * @param middleware - Router middleware
+   * @returns The router, for chaining
+   */
+  use(middleware: WebhookRouterMiddleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Verifies a raw webhook request and dispatches it
+   * Pings are acknowledged without verification, since WooCommerce does not sign them
+   *
+   * @param request - Raw request headers and body
+   * @returns Outcome of the request
+   * @throws {WooCommerceWebhookError} If the request is unsigned, tampered with or malformed
+   */
+  async handle(request: RawWebhookRequest): Promise<WebhookDispatchResult> {
+    const webhookId = parseWebhookPing(request)
+    if (webhookId !== undefined) {
+      await this.onPing?.(webhookId)
+      return { type: 'ping', webhookId }
+    }
+
+    const payload = parseWebhookRequest(request, this.secret)
+    const handled = await this.dispatch(payload)
+    return { type: 'delivery', payload, handled }
+  }
+
+  /**
+   * Dispatches an already verified payload to the matching handlers
+   *
+   * @param payload - Webhook payload
+   * @returns Number of handlers that matched the topic
+   */
+  async dispatch(payload: WebhookPayload): Promise<number> {
+    const handlers = this.routes
+      .filter(route => matchesTopic(route.pattern, payload))
+      .map(route => route.handler)
+
+    const run = async (index: number): Promise<void> => {
+      const middleware = this.middleware[index]
+      if (middleware) {
+        await middleware(payload, () => run(index + 1))
+      } else {
+        await this.runHandlers(handlers, payload)
+      }
+    }
+
+    await run(0)
+    return handlers.length
+  }
+
+  /**
+   * Runs handlers sequentially according to the error policy
+   *
+   * @param handlers - Matching handlers
+   * @param payload - Webhook payload
+   */
+  private async runHandlers(handlers: WebhookHandler[], payload: WebhookPayload): Promise<void> {
+    const errors: unknown[] = []
+
+    for (const handler of handlers) {
+      try {
+        await handler(payload)
+      } catch (error) {
+        await this.onError?.(error, payload)
+        if (this.errorPolicy === 'throw') throw error
+        errors.push(error)
+      }
+    }
+
+    if (errors.length > 0 && this.errorPolicy === 'collect') {
+      throw new AggregateError(errors, `${errors.length} webhook handler(s) failed`)
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Webhook signature computation and verification
+ */
+
+import crypto from 'crypto-js'
+
+/**
+ * Converts a raw body to a word array without re-encoding bytes
+ *
+ * @param body - Raw request body
+ * @returns Word array of the body bytes
+ */
+function toWordArray(body: string | Uint8Array): crypto.lib.WordArray {
+  return typeof body === 'string' ? crypto.enc.Utf8.parse(body) : crypto.lib.WordArray.create(body)
+}
+
+/**
+ * Compares two strings in constant time (for equal lengths)
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns True if both strings are equal
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * Computes the `X-WC-Webhook-Signature` value for a payload
+ * (base64-encoded HMAC-SHA256 of the raw body, keyed with the webhook secret)
+ *
+ * @param rawBody - Raw request body
+ * @param secret - Webhook secret
+ * @returns Base64-encoded signature
+ */
+export function computeWebhookSignature(rawBody: string | Uint8Array, secret: string): string {
+  return crypto.HmacSHA256(toWordArray(rawBody), secret).toString(crypto.enc.Base64)
+}
+
+/**
+ * Verifies the `X-WC-Webhook-Signature` header of a webhook delivery
+ *
+ * The body must be the raw bytes received, before any JSON parsing:
+ * re-serialized JSON will not match the signature.
+ *
+ * @param rawBody - Raw request body
+ * @param signature - Value of the `X-WC-Webhook-Signature` header
+ * @param secret - Webhook secret
+ * @returns True if the signature is valid
+ *
+ * @example
+ * ```typescript
+ * if (!verifyWebhookSignature(rawBody, req.headers['x-wc-webhook-signature'], secret)) {
+ *   return res.status(401).end()
+ * }
+ * ```
+ */
+export function verifyWebhookSignature(
+  rawBody: string | Uint8Array,
+  signature: string | null | undefined,
+  secret: string
+): boolean {
+  if (!signature || !secret) return false
+
+  return timingSafeEqual(computeWebhookSignature(rawBody, secret), signature.trim())
+}